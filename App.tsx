@@ -1,68 +1,230 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import SimulationCanvas from './components/SimulationCanvas';
 import Controls from './components/Controls';
-import { Speaker, SimulationSettings, Group } from './types';
-import { calculateSpeedOfSound } from './utils/physics';
+import MicResponsePanel from './components/MicResponsePanel';
+import PolarPanel from './components/PolarPanel';
+import LevelLegend from './components/LevelLegend';
+import ProjectPanel from './components/ProjectPanel';
+import ReportPanel from './components/ReportPanel';
+import CsvImportDialog from './components/CsvImportDialog';
+import OptimizerPanel from './components/OptimizerPanel';
+import ArrayGeneratorDialog from './components/ArrayGeneratorDialog';
+import SteeringPanel from './components/SteeringPanel';
+import AlignmentPanel from './components/AlignmentPanel';
+import { Speaker, SimulationSettings, Group, ViewMode, Microphone, OptimizerRegion, Position, Position3D, Scene, SceneSnapshot, ProjectSummary } from './types';
+import { DEFAULT_SPEAKER_MODEL_ID, MAIN_PA_MODEL_ID } from './utils/speakerModels';
+import { createFilter } from './utils/dsp';
+import { CROSSOVER_WINDOW_DB, MONO_MAX_DB, MONO_MIN_DB, getCrossoverGradient, getMonoGradient } from './utils/heatmap';
+import { DEFAULT_SETTINGS, SceneError, parseScene, serializeScene } from './utils/scene';
+import { History, createHistory, pushHistory, undoHistory, redoHistory } from './utils/history';
+import { downloadBlob } from './utils/download';
+import { ImportedSpeaker, exportSpeakersCsv } from './utils/speakerCsv';
+import { SpeakerChange } from './utils/optimizer';
+import { ArrayTopology, GeneratedSpeaker } from './utils/arrayGenerator';
+import { SteeringParams, planSteering } from './utils/beamSteering';
+import { createSceneLink, decodeSceneHash, MAX_LINK_LENGTH } from './utils/sceneLink';
+import { listProjects, loadProject, saveProject, updateProject, duplicateProject, renameProject, deleteProject, saveAutosave, loadAutosave } from './utils/projectStore';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
 // Default colors for new groups
 const GROUP_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#facc15', '#a855f7', '#f97316', '#ec4899'];
 
+// A new, unprocessed group; the color follows how many groups exist already
+const createGroup = (name: string, index: number): Group => ({
+  id: generateId(),
+  name,
+  color: GROUP_COLORS[index % GROUP_COLORS.length],
+  gain: 0,
+  delay: 0,
+  polarity: false,
+  filters: [],
+  mute: false,
+  solo: false
+});
+
+// Trim height of a newly added main PA hang, meters
+const MAIN_PA_HEIGHT = 6;
+
+// Trace colors for measurement mics
+const MIC_COLORS = ['#f8fafc', '#fb923c', '#38bdf8', '#a3e635', '#f472b6', '#fbbf24'];
+
+// Quiet time after the last edit before the scene is autosaved
+const AUTOSAVE_DELAY_MS = 800;
+
+// How long transient notices stay up
+const NOTICE_DURATION_MS = 5000;
+
+// Repeated edits of the same field within this window (slider moves, typing) make one undo step
+const HISTORY_COALESCE_MS = 1000;
+
+// Stable empty overlay, so the canvas doesn't redraw for a new [] on every render
+const NO_ARC: Position[] = [];
+
 const App: React.FC = () => {
   // --- State ---
-  const [settings, setSettings] = useState<SimulationSettings>({
-    frequency: 60, // Standard sub frequency
-    temperature: 20,
-    venueWidth: 20,
-    venueDepth: 20,
-    resolution: 1, 
-    dynamicRange: 36 // dB
-  });
+  const [settings, setSettings] = useState<SimulationSettings>(DEFAULT_SETTINGS);
   
-  const [viewMode, setViewMode] = useState<'SPL' | 'Phase'>('SPL');
+  const [viewMode, setViewMode] = useState<ViewMode>('SPL');
+  const [showElevation, setShowElevation] = useState(false);
+  const [showResponses, setShowResponses] = useState(false);
+  const [showPolar, setShowPolar] = useState(false);
+  const [showProjects, setShowProjects] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showOptimizer, setShowOptimizer] = useState(false);
+  const [showSteering, setShowSteering] = useState(false);
+  const [steering, setSteering] = useState<SteeringParams>({ steerAngle: 0, arcMode: 'none', radius: 10, arcAngle: 30 });
+  const [showAlignment, setShowAlignment] = useState(false);
+  const [alignReference, setAlignReference] = useState<Position3D | null>(null);
+  const [pickingReference, setPickingReference] = useState(false);
+  // Topology the array generator opened with, null while it is closed
+  const [arrayTopology, setArrayTopology] = useState<ArrayTopology | null>(null);
 
   const [speakers, setSpeakers] = useState<Speaker[]>([
-    { id: '1', name: 'Sub 1', x: -0.5, y: 0, z: 0, gain: 0, delay: 0, polarity: false, mute: false, solo: false },
-    { id: '2', name: 'Sub 2', x: 0.5, y: 0, z: 0, gain: 0, delay: 0, polarity: false, mute: false, solo: false },
+    { id: '1', modelId: DEFAULT_SPEAKER_MODEL_ID, role: 'sub', channel: 'mono', name: 'Sub 1', x: -0.5, y: 0, z: 0, rotation: 0, gain: 0, delay: 0, polarity: false, filters: [], mute: false, solo: false },
+    { id: '2', modelId: DEFAULT_SPEAKER_MODEL_ID, role: 'sub', channel: 'mono', name: 'Sub 2', x: 0.5, y: 0, z: 0, rotation: 0, gain: 0, delay: 0, polarity: false, filters: [], mute: false, solo: false },
   ]);
 
   const [groups, setGroups] = useState<Group[]>([]);
   const [selectedSpeakerIds, setSelectedSpeakerIds] = useState<string[]>(['1']);
+  const [mics, setMics] = useState<Microphone[]>([]);
+  const [regions, setRegions] = useState<OptimizerRegion[]>([]);
+  const [sceneError, setSceneError] = useState<SceneError | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const noticeTimerRef = useRef<number | undefined>(undefined);
+
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [autosaveStatus, setAutosaveStatus] = useState('Restoring last session…');
+  const [isRestored, setIsRestored] = useState(false);
+  // Scene as last opened, so opening a project doesn't count as changing it
+  const openedSceneRef = useRef<Scene | null>(null);
+
+  // Short-lived status message over the canvas
+  const showNotice = (message: string) => {
+    setNotice(message);
+    window.clearTimeout(noticeTimerRef.current);
+    noticeTimerRef.current = window.setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+  };
+
+  // --- History ---
+
+  const [history, setHistory] = useState<History<SceneSnapshot>>(createHistory);
+  // Last recorded edit, for coalescing repeats of the same edit
+  const lastEditRef = useRef<{ key: string, time: number } | null>(null);
+  // Canvas drags: 'pending' until the first move records a step, then 'recorded' until the drag ends
+  const dragEditRef = useRef<'idle' | 'pending' | 'recorded'>('idle');
+
+  const currentSnapshot = (): SceneSnapshot => ({ speakers, groups, mics, regions, settings });
+
+  // Call before every mutation. Edits sharing a key in quick succession, and everything within one drag,
+  // collapse into a single undo step.
+  const recordHistory = (key?: string) => {
+    if (dragEditRef.current === 'recorded') return;
+    if (dragEditRef.current === 'pending') {
+      dragEditRef.current = 'recorded';
+    } else {
+      const now = Date.now();
+      const last = lastEditRef.current;
+      lastEditRef.current = key ? { key, time: now } : null;
+      if (key && last && last.key === key && now - last.time < HISTORY_COALESCE_MS) return;
+    }
+    setHistory(h => pushHistory(h, currentSnapshot()));
+  };
+
+  const restoreSnapshot = (snapshot: SceneSnapshot) => {
+    setSpeakers(snapshot.speakers);
+    setGroups(snapshot.groups);
+    setMics(snapshot.mics);
+    setRegions(snapshot.regions);
+    setSettings(snapshot.settings);
+    setSelectedSpeakerIds(prev => prev.filter(id => snapshot.speakers.some(s => s.id === id)));
+    lastEditRef.current = null;
+  };
+
+  const handleUndo = () => {
+    const step = undoHistory(history, currentSnapshot());
+    if (!step) return;
+    setHistory(step.history);
+    restoreSnapshot(step.snapshot);
+  };
+
+  const handleRedo = () => {
+    const step = redoHistory(history, currentSnapshot());
+    if (!step) return;
+    setHistory(step.history);
+    restoreSnapshot(step.snapshot);
+  };
+
+  const handleDragStart = () => {
+    dragEditRef.current = 'pending';
+  };
+
+  const handleDragEnd = () => {
+    dragEditRef.current = 'idle';
+    lastEditRef.current = null;
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS). Text fields keep their own undo.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type === 'text'))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) handleUndo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') handleRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
 
   // --- Handlers ---
 
+  const handleSettingsChange = (next: SimulationSettings) => {
+    const changed = (Object.keys(next) as (keyof SimulationSettings)[]).filter(k => next[k] !== settings[k]);
+    recordHistory(`settings:${changed.join(',')}`);
+    setSettings(next);
+  };
+
   // Unified updater for one or more speakers
   const handleUpdateSpeakers = (ids: string[], updates: Partial<Speaker>) => {
+    recordHistory(`speakers:${ids.join(',')}:${Object.keys(updates).join(',')}`);
     setSpeakers(prev => prev.map(s => ids.includes(s.id) ? { ...s, ...updates } : s));
   };
 
-  const handleUpdateSpeakerPosition = (id: string, x: number, y: number) => {
-      setSpeakers(prev => prev.map(s => s.id === id ? { ...s, x, y } : s));
+  const handleUpdateSpeakerPosition = (id: string, x: number, y: number, z: number) => {
+      recordHistory(`position:${id}`);
+      setSpeakers(prev => prev.map(s => s.id === id ? { ...s, x, y, z } : s));
+  };
+
+  const handleRotateSpeaker = (id: string, rotation: number) => {
+      recordHistory(`rotation:${id}`);
+      setSpeakers(prev => prev.map(s => s.id === id ? { ...s, rotation } : s));
   };
 
   const handleUpdateGroup = (id: string, updates: Partial<Group>) => {
+    recordHistory(`group:${id}:${Object.keys(updates).join(',')}`);
     setGroups(prev => prev.map(g => g.id === id ? { ...g, ...updates } : g));
   };
 
   const handleCreateGroup = (speakerIds: string[]) => {
-    const newGroup: Group = {
-      id: generateId(),
-      name: `Group ${String.fromCharCode(65 + groups.length)}`, // Group A, Group B...
-      color: GROUP_COLORS[groups.length % GROUP_COLORS.length],
-      mute: false,
-      solo: false
-    };
+    const newGroup = createGroup(`Group ${String.fromCharCode(65 + groups.length)}`, groups.length); // Group A, Group B...
+    recordHistory();
     setGroups([...groups, newGroup]);
     
     // Assign selected speakers to this new group
     if (speakerIds.length > 0) {
-      handleUpdateSpeakers(speakerIds, { groupId: newGroup.id });
+      setSpeakers(prev => prev.map(s => speakerIds.includes(s.id) ? { ...s, groupId: newGroup.id } : s));
     }
   };
 
   const handleDeleteGroup = (groupId: string) => {
+    recordHistory();
     // Remove group
     setGroups(prev => prev.filter(g => g.id !== groupId));
     // Unassign speakers
@@ -72,21 +234,54 @@ const App: React.FC = () => {
   const handleAddSpeaker = () => {
     const newSpeaker: Speaker = {
       id: generateId(),
+      modelId: DEFAULT_SPEAKER_MODEL_ID,
+      role: 'sub',
+      channel: 'mono',
       name: `Sub ${speakers.length + 1}`,
       x: 0,
       y: 0,
       z: 0,
+      rotation: 0,
+      gain: 0,
+      delay: 0,
+      polarity: false,
+      filters: [],
+      mute: false,
+      solo: false
+    };
+    recordHistory();
+    setSpeakers([...speakers, newSpeaker]);
+    setSelectedSpeakerIds([newSpeaker.id]);
+  };
+
+  // Flown main PA hang, alternating left / right of centre, high-passed for the sub crossover.
+  // It stays on the subs' channel so the crossover sums coherently.
+  const handleAddMainPa = () => {
+    const mainCount = speakers.filter(s => s.role === 'main').length;
+    const newSpeaker: Speaker = {
+      id: generateId(),
+      modelId: MAIN_PA_MODEL_ID,
+      role: 'main',
+      channel: 'mono',
+      name: `Main ${mainCount + 1}`,
+      x: (mainCount % 2 === 0 ? -1 : 1) * settings.venueWidth / 4,
+      y: 0,
+      z: Math.max(0, Math.min(MAIN_PA_HEIGHT, settings.venueHeight - 1)),
+      rotation: 0,
       gain: 0,
       delay: 0,
       polarity: false,
+      filters: [{ ...createFilter('highpass'), frequency: 90, alignment: 'linkwitz-riley' }],
       mute: false,
       solo: false
     };
+    recordHistory();
     setSpeakers([...speakers, newSpeaker]);
     setSelectedSpeakerIds([newSpeaker.id]);
   };
 
   const handleRemoveSpeakers = (ids: string[]) => {
+    recordHistory();
     setSpeakers(prev => prev.filter(s => !ids.includes(s.id)));
     setSelectedSpeakerIds([]);
   };
@@ -101,59 +296,299 @@ const App: React.FC = () => {
         x: original.x + 0.5, // slightly offset
         y: original.y + 0.5
     };
+    recordHistory();
     setSpeakers([...speakers, newSpeaker]);
     setSelectedSpeakerIds([newSpeaker.id]);
   };
 
+  const handleAddMic = (position: Position3D) => {
+    const newMic: Microphone = {
+      id: generateId(),
+      name: `Mic ${mics.length + 1}`,
+      color: MIC_COLORS[mics.length % MIC_COLORS.length],
+      ...position
+    };
+    recordHistory();
+    setMics([...mics, newMic]);
+    setShowResponses(true);
+  };
+
+  const handleUpdateMic = (id: string, updates: Partial<Microphone>) => {
+    recordHistory(`mic:${id}:${Object.keys(updates).join(',')}`);
+    setMics(prev => prev.map(m => m.id === id ? { ...m, ...updates } : m));
+  };
+
+  const handleRemoveMic = (id: string) => {
+    recordHistory();
+    setMics(prev => prev.filter(m => m.id !== id));
+  };
+
+  // New regions start over the audience (maximize) or the stage behind the array (minimize)
+  const handleAddRegion = (kind: OptimizerRegion['kind']) => {
+    const count = regions.filter(r => r.kind === kind).length + 1;
+    const newRegion: OptimizerRegion = kind === 'maximize'
+      ? { id: generateId(), name: `Audience ${count}`, kind, x: 0, y: settings.venueDepth / 4, width: settings.venueWidth * 0.6, depth: settings.venueDepth / 3 }
+      : { id: generateId(), name: `Stage ${count}`, kind, x: 0, y: -settings.venueDepth / 4, width: settings.venueWidth * 0.4, depth: settings.venueDepth / 6 };
+    recordHistory();
+    setRegions([...regions, newRegion]);
+  };
+
+  const handleUpdateRegion = (id: string, updates: Partial<OptimizerRegion>) => {
+    recordHistory(`region:${id}:${Object.keys(updates).join(',')}`);
+    setRegions(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r));
+  };
+
+  const handleRemoveRegion = (id: string) => {
+    recordHistory();
+    setRegions(prev => prev.filter(r => r.id !== id));
+  };
+
+  const handleApplyOptimization = (changes: SpeakerChange[]) => {
+    recordHistory();
+    setSpeakers(prev => prev.map(s => {
+      const change = changes.find(c => c.id === s.id);
+      return change ? { ...s, gain: change.gain, delay: change.delay, polarity: change.polarity } : s;
+    }));
+  };
+
+  // Steering works on the selected line; the plan is shown live on the canvas while the panel is open
+  const steeringPlan = useMemo(
+    () => planSteering(speakers.filter(s => selectedSpeakerIds.includes(s.id)), steering, settings.temperature),
+    [speakers, selectedSpeakerIds, steering, settings.temperature]
+  );
+
+  const handleApplySteering = () => {
+    if (steeringPlan.error) return;
+    recordHistory();
+    setSpeakers(prev => prev.map(s => {
+      const planned = steeringPlan.delays.find(d => d.id === s.id);
+      return planned ? { ...s, delay: planned.delay } : s;
+    }));
+  };
+
+  const handlePickReference = (position: Position3D) => {
+    setAlignReference(position);
+    setPickingReference(false);
+  };
+
   const handleSelectionChange = (ids: string[]) => {
     setSelectedSpeakerIds(ids);
   };
 
-  const handleApplyPreset = (type: 'broadside' | 'endfire' | 'gradient' | 'inverted_stack') => {
-    const c = calculateSpeedOfSound(settings.temperature);
-    const lambda = c / settings.frequency;
-    
-    let newSpeakers: Speaker[] = [];
-
-    switch (type) {
-        case 'broadside':
-            [-1.5, -0.5, 0.5, 1.5].forEach((offset, i) => {
-                newSpeakers.push({
-                    id: generateId(), name: `Sub ${i+1}`, x: offset, y: 0, z: 0, gain: 0, delay: 0, polarity: false, mute: false, solo: false
-                });
-            });
-            break;
-        case 'endfire':
-            const spacing = lambda / 4;
-            const delayMs = (spacing / c) * 1000;
-            [0, 1, 2, 3].forEach((i) => {
-                const yPos = i * spacing - (1.5 * spacing);
-                newSpeakers.push({
-                    id: generateId(), name: `EF ${i+1}`, x: 0, y: yPos, z: 0, gain: 0, 
-                    delay: i * delayMs, 
-                    polarity: false, mute: false, solo: false
-                });
-            });
-            break;
-        case 'gradient':
-            const dist = lambda / 4;
-            const timeMs = (dist / c) * 1000;
-            newSpeakers.push({
-                id: generateId(), name: 'Front', x: 0, y: 0, z: 0, gain: 0, delay: 0, polarity: false, mute: false, solo: false
-            });
-            newSpeakers.push({
-                id: generateId(), name: 'Rear', x: 0, y: -dist, z: 0, gain: 0, 
-                delay: timeMs, polarity: true, mute: false, solo: false
-            });
-            break;
-        case 'inverted_stack':
-             newSpeakers.push({ id: generateId(), name: 'Sub 1', x: -0.6, y: 0, z: 0, gain: 0, delay: 0, polarity: false, mute: false, solo: false });
-             newSpeakers.push({ id: generateId(), name: 'Sub 2 (Cardioid)', x: 0, y: 0.1, z: 0, gain: 0, delay: 0, polarity: true, mute: false, solo: false }); 
-             newSpeakers.push({ id: generateId(), name: 'Sub 3', x: 0.6, y: 0, z: 0, gain: 0, delay: 0, polarity: false, mute: false, solo: false });
-             break;
+  // A generated array becomes a new group next to whatever is already in the scene
+  const handleAddArray = (name: string, generated: GeneratedSpeaker[]) => {
+    const group = createGroup(name, groups.length);
+    const newSpeakers: Speaker[] = generated.map(fields => ({ ...fields, id: generateId(), groupId: group.id }));
+
+    recordHistory();
+    setGroups([...groups, group]);
+    setSpeakers([...speakers, ...newSpeakers]);
+    setSelectedSpeakerIds(newSpeakers.map(s => s.id));
+    setArrayTopology(null);
+  };
+
+  // Imported rows become new speakers; unknown group names become new groups
+  const handleImportSpeakers = (imported: ImportedSpeaker[], replace: boolean) => {
+    const nextGroups = [...groups];
+    const groupIdFor = (name: string) => {
+      if (!name) return undefined;
+      let group = nextGroups.find(g => g.name === name);
+      if (!group) {
+        group = createGroup(name, nextGroups.length);
+        nextGroups.push(group);
+      }
+      return group.id;
+    };
+
+    const newSpeakers: Speaker[] = imported.map(({ groupName, ...fields }) => ({
+      ...fields,
+      id: generateId(),
+      groupId: groupIdFor(groupName),
+      modelId: DEFAULT_SPEAKER_MODEL_ID,
+      role: 'sub',
+      channel: 'mono',
+      rotation: 0,
+      filters: [],
+      solo: false
+    }));
+
+    recordHistory();
+    setGroups(nextGroups);
+    setSpeakers(replace ? newSpeakers : [...speakers, ...newSpeakers]);
+    setSelectedSpeakerIds(newSpeakers.map(s => s.id));
+    setShowCsvImport(false);
+  };
+
+  const handleExportCsv = () => {
+    downloadBlob(new Blob([exportSpeakersCsv(speakers, groups)], { type: 'text/csv' }), 'speakers.csv');
+  };
+
+  // --- Scene files ---
+
+  const handleSaveScene = () => {
+    const scene: Scene = { speakers, groups, mics, regions, settings, viewMode };
+    downloadBlob(new Blob([serializeScene(scene)], { type: 'application/json' }), `scene-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const applyScene = (scene: Scene) => {
+    setSpeakers(scene.speakers);
+    setGroups(scene.groups);
+    setMics(scene.mics);
+    setRegions(scene.regions);
+    setSettings(scene.settings);
+    setViewMode(scene.viewMode);
+    setSelectedSpeakerIds([]);
+    setSceneError(null);
+    // A different document: earlier steps would undo into it
+    setHistory(createHistory());
+    lastEditRef.current = null;
+    openedSceneRef.current = scene;
+  };
+
+  const handleOpenScene = async (file: File) => {
+    try {
+      applyScene(parseScene(await file.text()));
+      setCurrentProjectId(null);
+    } catch (e) {
+      setSceneError(e instanceof SceneError ? e : new SceneError(`Could not read ${file.name}.`));
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      const { url, length } = await createSceneLink({ speakers, groups, mics, regions, settings, viewMode }, window.location.href);
+      if (!url) {
+        showNotice(`Scene is too large for a link (${length} of ${MAX_LINK_LENGTH} characters). Use Save Scene to share a file instead.`);
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      showNotice('Scene link copied to the clipboard.');
+    } catch (e) {
+      showNotice(`Could not copy the link: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  // --- Project library & autosave ---
+
+  const reportStorageError = (e: unknown) => {
+    if (e instanceof SceneError) setSceneError(e);
+    else setAutosaveStatus(`Storage error: ${e instanceof Error ? e.message : String(e)}`);
+  };
+
+  const refreshProjects = () => listProjects().then(setProjects).catch(reportStorageError);
+
+  // On startup open a shared link if the URL carries one, otherwise restore the last session
+  const restoreSession = async () => {
+    try {
+      const linked = await decodeSceneHash(window.location.hash);
+      if (linked) {
+        // The link replaces the session and the next autosave would overwrite it; keep unsaved work
+        // in the library first (work on a project is already stored with that project)
+        const previous = await loadAutosave();
+        let kept = '';
+        if (previous && !previous.projectId && previous.scene.speakers.length > 0) {
+          kept = `Previous session ${new Date().toLocaleString()}`;
+          await saveProject(generateId(), kept, previous.scene);
+        }
+        applyScene(linked);
+        setCurrentProjectId(null);
+        showNotice(kept ? `Opened shared scene link. Your previous session was kept as "${kept}".` : 'Opened shared scene link.');
+        return;
+      }
+    } catch (e) {
+      reportStorageError(e);
+    } finally {
+      // The link has been consumed; keep later reloads on the autosave
+      if (window.location.hash) window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    }
+
+    const saved = await loadAutosave();
+    if (saved) {
+      applyScene(saved.scene);
+      setCurrentProjectId(saved.projectId);
+    }
+  };
+
+  useEffect(() => {
+    restoreSession()
+      .then(() => setAutosaveStatus('Autosave on'))
+      .catch(reportStorageError)
+      .finally(() => {
+        setIsRestored(true);
+        // After the restore, which may have added the previous session to the library
+        refreshProjects();
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    const timer = window.setTimeout(async () => {
+      const scene: Scene = { speakers, groups, mics, regions, settings, viewMode };
+      const opened = openedSceneRef.current;
+      const changed = !opened || (Object.keys(scene) as (keyof Scene)[]).some(key => scene[key] !== opened[key]);
+      try {
+        await saveAutosave(scene, currentProjectId);
+        if (currentProjectId && changed) {
+          const summary = await updateProject(currentProjectId, scene);
+          setProjects(prev => [summary, ...prev.filter(p => p.id !== summary.id)]);
+        }
+        setAutosaveStatus(`Autosaved ${new Date().toLocaleTimeString()}`);
+      } catch (e) {
+        reportStorageError(e);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [isRestored, speakers, groups, mics, regions, settings, viewMode, currentProjectId]);
+
+  const handleCreateProject = async (name: string) => {
+    const scene: Scene = { speakers, groups, mics, regions, settings, viewMode };
+    try {
+      const project = await saveProject(generateId(), name, scene);
+      setCurrentProjectId(project.id);
+      openedSceneRef.current = scene;
+      await refreshProjects();
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      applyScene(await loadProject(id));
+      setCurrentProjectId(id);
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    const original = projects.find(p => p.id === id);
+    if (!original) return;
+    try {
+      await duplicateProject(id, generateId(), `${original.name} (Copy)`);
+      await refreshProjects();
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    try {
+      await renameProject(id, name);
+      await refreshProjects();
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (id === currentProjectId) setCurrentProjectId(null);
+      await refreshProjects();
+    } catch (e) {
+      reportStorageError(e);
     }
-    setSpeakers(newSpeakers);
-    if(newSpeakers.length > 0) setSelectedSpeakerIds([newSpeakers[0].id]);
   };
 
   return (
@@ -161,28 +596,224 @@ const App: React.FC = () => {
       
       {/* Simulation Area */}
       <div className="flex-grow relative flex flex-col">
+         {sceneError && (
+           <div className="mx-4 mt-4 p-3 rounded border border-red-500/50 bg-red-950/60 text-xs text-red-200 flex justify-between gap-4">
+             <div>
+               <p className="font-semibold">Could not open scene: {sceneError.message}</p>
+               {sceneError.details.length > 0 && (
+                 <ul className="mt-1 list-disc list-inside font-mono text-[10px] text-red-300 max-h-24 overflow-y-auto">
+                   {sceneError.details.map((d, i) => <li key={i}>{d}</li>)}
+                 </ul>
+               )}
+             </div>
+             <button onClick={() => setSceneError(null)} className="text-red-300 hover:text-white self-start">Dismiss</button>
+           </div>
+         )}
+
          <div className="flex-grow p-4 relative">
+             {showProjects && (
+               <div className="absolute top-6 left-6 bottom-6 z-10 flex">
+                 <ProjectPanel 
+                    projects={projects}
+                    currentProjectId={currentProjectId}
+                    autosaveStatus={autosaveStatus}
+                    onCreateProject={handleCreateProject}
+                    onOpenProject={handleOpenProject}
+                    onDuplicateProject={handleDuplicateProject}
+                    onRenameProject={handleRenameProject}
+                    onDeleteProject={handleDeleteProject}
+                    onClose={() => setShowProjects(false)}
+                 />
+               </div>
+             )}
+             {(showReport || showOptimizer || showSteering || showAlignment) && (
+               <div className="absolute top-6 right-6 z-10 flex flex-col items-end gap-3 max-h-[calc(100%-3rem)]">
+                 {showReport && (
+                   <ReportPanel 
+                      speakers={speakers}
+                      groups={groups}
+                      mics={mics}
+                      settings={settings}
+                      viewMode={viewMode}
+                      onError={showNotice}
+                      onClose={() => setShowReport(false)}
+                   />
+                 )}
+                 {showOptimizer && (
+                   <OptimizerPanel 
+                      speakers={speakers}
+                      groups={groups}
+                      settings={settings}
+                      regions={regions}
+                      selectedIds={selectedSpeakerIds}
+                      onAddRegion={handleAddRegion}
+                      onUpdateRegion={handleUpdateRegion}
+                      onRemoveRegion={handleRemoveRegion}
+                      onApply={handleApplyOptimization}
+                      onError={showNotice}
+                      onClose={() => setShowOptimizer(false)}
+                   />
+                 )}
+                 {showSteering && (
+                   <SteeringPanel
+                      speakers={speakers}
+                      params={steering}
+                      plan={steeringPlan}
+                      onChange={setSteering}
+                      onApply={handleApplySteering}
+                      onClose={() => setShowSteering(false)}
+                   />
+                 )}
+                 {showAlignment && (
+                   <AlignmentPanel
+                      speakers={speakers}
+                      groups={groups}
+                      settings={settings}
+                      selectedIds={selectedSpeakerIds}
+                      reference={alignReference}
+                      picking={pickingReference}
+                      onPick={() => setPickingReference(!pickingReference)}
+                      onReferenceChange={setAlignReference}
+                      onUpdateSpeakers={handleUpdateSpeakers}
+                      onEditStart={handleDragStart}
+                      onEditEnd={handleDragEnd}
+                      onClose={() => { setShowAlignment(false); setPickingReference(false); }}
+                   />
+                 )}
+               </div>
+             )}
+             {notice && (
+               <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-10 px-3 py-2 rounded bg-slate-800/95 border border-slate-600 text-xs text-slate-200 shadow-lg">
+                 {notice}
+               </div>
+             )}
              <SimulationCanvas 
                 speakers={speakers}
                 groups={groups}
                 settings={settings}
                 viewMode={viewMode}
+                projection="plan"
                 selectedSpeakerIds={selectedSpeakerIds}
                 onUpdateSpeakerPosition={handleUpdateSpeakerPosition}
+                onRotateSpeaker={handleRotateSpeaker}
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
                 onSelectSpeakers={handleSelectionChange}
+                mics={mics}
+                regions={regions}
+                virtualArc={showSteering ? steeringPlan.arc : NO_ARC}
+                referencePoint={showAlignment ? alignReference : null}
+                onPickPoint={pickingReference ? handlePickReference : undefined}
+                onUpdateMic={handleUpdateMic}
+                onAddMic={handleAddMic}
              />
          </div>
+
+         {showElevation && (
+           <div className="h-64 px-4 pb-4 relative">
+               <SimulationCanvas 
+                  speakers={speakers}
+                  groups={groups}
+                  settings={settings}
+                  viewMode={viewMode}
+                  projection="section"
+                  selectedSpeakerIds={selectedSpeakerIds}
+                  onUpdateSpeakerPosition={handleUpdateSpeakerPosition}
+                  onRotateSpeaker={handleRotateSpeaker}
+                  onDragStart={handleDragStart}
+                  onDragEnd={handleDragEnd}
+                  onSelectSpeakers={handleSelectionChange}
+                  mics={mics}
+                  regions={regions}
+                  virtualArc={NO_ARC}
+                  referencePoint={null}
+                  onUpdateMic={handleUpdateMic}
+                  onAddMic={handleAddMic}
+               />
+           </div>
+         )}
+
+         {showResponses && (
+           <div className="h-56 px-4 pb-4">
+               <MicResponsePanel speakers={speakers} groups={groups} settings={settings} mics={mics} />
+           </div>
+         )}
+
+         {showPolar && (
+           <div className="h-56 px-4 pb-4">
+               <PolarPanel speakers={speakers} groups={groups} settings={settings} />
+           </div>
+         )}
          
          <div className="h-8 bg-gray-900 border-t border-slate-800 flex items-center px-4 text-xs text-slate-500 justify-between">
-            <span>Shift+Click to select multiple. Drag to move.</span>
+            <span className="flex items-center gap-3">
+              <button 
+                onClick={() => setShowProjects(!showProjects)}
+                className={`px-2 py-0.5 rounded border ${showProjects ? 'border-brand-500 text-brand-500' : 'border-slate-700 hover:text-slate-300'}`}
+              >
+                Projects
+              </button>
+              Shift+Click to select multiple. Drag to move, Alt+Drag or the handle to aim. Double-click to place a mic.
+              <button 
+                onClick={() => setShowElevation(!showElevation)}
+                className={`px-2 py-0.5 rounded border ${showElevation ? 'border-brand-500 text-brand-500' : 'border-slate-700 hover:text-slate-300'}`}
+              >
+                Elevation View
+              </button>
+              <button 
+                onClick={() => setShowResponses(!showResponses)}
+                className={`px-2 py-0.5 rounded border ${showResponses ? 'border-brand-500 text-brand-500' : 'border-slate-700 hover:text-slate-300'}`}
+              >
+                Mic Responses
+              </button>
+              <button 
+                onClick={() => setShowPolar(!showPolar)}
+                className={`px-2 py-0.5 rounded border ${showPolar ? 'border-brand-500 text-brand-500' : 'border-slate-700 hover:text-slate-300'}`}
+              >
+                Polar
+              </button>
+              <button 
+                onClick={() => setShowReport(!showReport)}
+                className={`px-2 py-0.5 rounded border ${showReport ? 'border-brand-500 text-brand-500' : 'border-slate-700 hover:text-slate-300'}`}
+              >
+                Report
+              </button>
+              <button 
+                onClick={() => setShowOptimizer(!showOptimizer)}
+                className={`px-2 py-0.5 rounded border ${showOptimizer ? 'border-brand-500 text-brand-500' : 'border-slate-700 hover:text-slate-300'}`}
+              >
+                Optimizer
+              </button>
+              <button 
+                onClick={() => setShowSteering(!showSteering)}
+                className={`px-2 py-0.5 rounded border ${showSteering ? 'border-brand-500 text-brand-500' : 'border-slate-700 hover:text-slate-300'}`}
+              >
+                Steering
+              </button>
+              <button 
+                onClick={() => { setShowAlignment(!showAlignment); setPickingReference(false); }}
+                className={`px-2 py-0.5 rounded border ${showAlignment ? 'border-brand-500 text-brand-500' : 'border-slate-700 hover:text-slate-300'}`}
+              >
+                Alignment
+              </button>
+            </span>
             
-            {viewMode === 'SPL' ? (
+            {viewMode === 'Crossover' ? (
               <span className="flex items-center gap-2">
-                   <span className="w-3 h-3 rounded-full bg-blue-500 inline-block"/> -30dB
-                   <span className="w-3 h-3 rounded-full bg-green-500 inline-block"/> -12dB
-                   <span className="w-3 h-3 rounded-full bg-yellow-500 inline-block"/> -3dB
-                   <span className="w-3 h-3 rounded-full bg-red-500 inline-block"/> 0dB
+                   <span className="font-mono">0°</span>
+                   <span className="w-32 h-3 rounded-sm inline-block" style={{ background: getCrossoverGradient() }}/>
+                   <span className="font-mono">180°</span>
+                   <span>Sub / main PA phase offset (within {CROSSOVER_WINDOW_DB} dB)</span>
               </span>
+            ) : viewMode === 'Mono' ? (
+              <span className="flex items-center gap-2">
+                   <span className="font-mono">{MONO_MIN_DB}</span>
+                   <span className="w-32 h-3 rounded-sm inline-block" style={{ background: getMonoGradient() }}/>
+                   <span className="font-mono">+{MONO_MAX_DB}</span>
+                   <span>dB, L/R mono vs. uncorrelated</span>
+              </span>
+            ) : viewMode !== 'Phase' ? (
+              <LevelLegend settings={settings} viewMode={viewMode} />
             ) : (
               <span className="flex items-center gap-2">
                    <span className="w-3 h-3 bg-red-500 inline-block"/> 
@@ -197,6 +828,23 @@ const App: React.FC = () => {
          </div>
       </div>
 
+      {showCsvImport && (
+        <CsvImportDialog 
+          groups={groups}
+          onImport={handleImportSpeakers}
+          onClose={() => setShowCsvImport(false)}
+        />
+      )}
+
+      {arrayTopology && (
+        <ArrayGeneratorDialog
+          initialTopology={arrayTopology}
+          settings={settings}
+          onAdd={handleAddArray}
+          onClose={() => setArrayTopology(null)}
+        />
+      )}
+
       {/* Sidebar */}
       <Controls 
         speakers={speakers}
@@ -205,16 +853,30 @@ const App: React.FC = () => {
         viewMode={viewMode}
         onViewModeChange={setViewMode}
         selectedIds={selectedSpeakerIds}
-        onSettingsChange={setSettings}
+        onSettingsChange={handleSettingsChange}
         onUpdateSpeakers={handleUpdateSpeakers}
         onAddSpeaker={handleAddSpeaker}
+        onAddMainPa={handleAddMainPa}
         onRemoveSpeakers={handleRemoveSpeakers}
         onCloneSpeaker={handleCloneSpeaker}
-        onApplyPreset={handleApplyPreset}
+        onOpenArrayGenerator={setArrayTopology}
         onCreateGroup={handleCreateGroup}
         onUpdateGroup={handleUpdateGroup}
         onDeleteGroup={handleDeleteGroup}
         onSelectSpeakers={handleSelectionChange}
+        mics={mics}
+        onAddMic={() => handleAddMic({ x: 0, y: settings.venueDepth / 4, z: settings.listenerHeight })}
+        onUpdateMic={handleUpdateMic}
+        onRemoveMic={handleRemoveMic}
+        onSaveScene={handleSaveScene}
+        onOpenScene={handleOpenScene}
+        onCopyLink={handleCopyLink}
+        onImportCsv={() => setShowCsvImport(true)}
+        onExportCsv={handleExportCsv}
+        canUndo={history.past.length > 0}
+        canRedo={history.future.length > 0}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
       />
       
     </div>
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Speaker, Group, SimulationSettings, Position3D } from '../types';
+import { AlignTarget, getMainArrival, planAlignment } from '../utils/timeAlignment';
+import { getActiveSpeakers } from '../utils/physics';
+import { Crosshair, X } from 'lucide-react';
+
+interface Props {
+  speakers: Speaker[];
+  groups: Group[];
+  settings: SimulationSettings;
+  selectedIds: string[];
+  reference: Position3D | null;
+  picking: boolean;
+  onPick: () => void;
+  onReferenceChange: (reference: Position3D) => void;
+  onUpdateSpeakers: (ids: string[], updates: Partial<Speaker>) => void;
+  onEditStart: () => void; // brackets several updates into one undo step
+  onEditEnd: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-xs font-mono';
+
+// Reference point, target arrival time and the per-speaker delays that line the arrivals up there
+const AlignmentPanel: React.FC<Props> = ({
+  speakers,
+  groups,
+  settings,
+  selectedIds,
+  reference,
+  picking,
+  onPick,
+  onReferenceChange,
+  onUpdateSpeakers,
+  onEditStart,
+  onEditEnd,
+  onClose
+}) => {
+  const [target, setTarget] = useState<AlignTarget>('latest');
+  const [mainArrival, setMainArrival] = useState(30);
+
+  const selected = speakers.filter(s => selectedIds.includes(s.id));
+  // Without a selection, align the subs (the main PA is what they are aligned to)
+  const targets = selected.length > 0 ? selected : getActiveSpeakers(speakers, groups).filter(s => s.role === 'sub');
+  const measuredMain = reference ? getMainArrival(speakers, groups, reference, settings.temperature) : null;
+  const plan = reference ? planAlignment(targets, groups, reference, settings.temperature, target, mainArrival) : null;
+  const lateCount = plan ? plan.arrivals.filter(a => a.late).length : 0;
+
+  const apply = () => {
+    if (!plan) return;
+    // One update per distinct delay, all in one undo step
+    const byDelay = new Map<number, string[]>();
+    plan.arrivals.forEach(a => byDelay.set(a.delay, [...(byDelay.get(a.delay) ?? []), a.id]));
+    onEditStart();
+    byDelay.forEach((ids, delay) => onUpdateSpeakers(ids, { delay }));
+    onEditEnd();
+  };
+
+  return (
+    <div className="w-72 min-h-0 flex flex-col bg-gray-900/95 border border-slate-700 rounded-lg shadow-xl text-slate-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-700">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-1">
+          <Crosshair size={12}/> Time Alignment
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white"><X size={14}/></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {/* Reference */}
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <h4 className="text-[10px] uppercase font-bold text-slate-500">Reference point (m)</h4>
+            <button
+              onClick={onPick}
+              className={`text-[10px] px-1.5 py-0.5 rounded border ${picking ? 'border-brand-500 text-brand-500' : 'border-slate-600 hover:bg-slate-800'}`}
+            >
+              {picking ? 'Click the plan…' : 'Pick on canvas'}
+            </button>
+          </div>
+          {reference ? (
+            <div className="grid grid-cols-3 gap-1">
+              {(['x', 'y', 'z'] as const).map(key => (
+                <label key={key} className="text-[9px] uppercase text-slate-500">{key}
+                  <input
+                    type="number" step="0.1"
+                    value={reference[key]}
+                    onChange={(e) => onReferenceChange({ ...reference, [key]: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="text-[10px] text-slate-500">Pick FOH or the main-PA position on the plan.</p>
+          )}
+        </div>
+
+        {/* Target */}
+        <div className="space-y-1 text-xs">
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={target === 'latest'} onChange={() => setTarget('latest')} className="accent-brand-500"/>
+            Align to the latest sub
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={target === 'main'} onChange={() => setTarget('main')} className="accent-brand-500"/>
+            Align to main PA arrival
+            <input
+              type="number" step="0.1" min="0"
+              value={mainArrival}
+              disabled={target !== 'main'}
+              onChange={(e) => setMainArrival(Math.max(0, Number(e.target.value)))}
+              className="w-16 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-xs font-mono disabled:opacity-40"
+            />
+            ms
+            {measuredMain !== null && (
+              <button
+                onClick={() => { setTarget('main'); setMainArrival(Math.round(measuredMain * 100) / 100); }}
+                className="px-1.5 py-0.5 rounded border border-slate-700 text-[10px] text-slate-400 hover:text-slate-200"
+                title="Earliest main PA arrival at the reference, including its delay"
+              >
+                From PA
+              </button>
+            )}
+          </label>
+        </div>
+
+        {plan && (
+          <>
+            <table className="w-full text-[10px] font-mono">
+              <thead className="text-slate-500">
+                <tr><th className="text-left font-normal">Speaker</th><th className="text-right font-normal">Dist.</th><th className="text-right font-normal">Flight</th><th className="text-right font-normal">Delay</th></tr>
+              </thead>
+              <tbody>
+                {plan.arrivals.map(a => {
+                  const s = speakers.find(sp => sp.id === a.id);
+                  if (!s) return null;
+                  return (
+                    <tr key={a.id} className={a.late ? 'text-yellow-400' : ''}>
+                      <td className="truncate max-w-[5rem]">{s.name}</td>
+                      <td className="text-right">{a.distance.toFixed(2)}</td>
+                      <td className="text-right">{a.flightTime.toFixed(2)}</td>
+                      <td className={`text-right ${!a.late && Math.abs(s.delay - a.delay) > 1e-6 ? 'text-brand-500' : ''}`}>{a.delay.toFixed(2)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="text-[10px] text-slate-500">
+              Arrival {plan.targetTime.toFixed(2)} ms after the feed.
+              {lateCount > 0 && <span className="text-yellow-400"> {lateCount} speaker{lateCount === 1 ? ' arrives' : 's arrive'} later than the main PA even undelayed; delay the main PA instead.</span>}
+            </p>
+          </>
+        )}
+
+        <button
+          onClick={apply}
+          disabled={!plan || targets.length === 0}
+          className="w-full py-1.5 rounded bg-brand-600 hover:bg-brand-500 disabled:opacity-40 disabled:hover:bg-brand-600 text-white text-xs font-medium"
+        >
+          Apply delays to {selected.length > 0 ? `${targets.length} selected speaker` : `all ${targets.length} sub`}{targets.length === 1 ? '' : 's'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AlignmentPanel;
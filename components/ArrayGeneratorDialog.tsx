@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { SimulationSettings } from '../types';
+import { ArrayParams, ArrayTopology, GainTaper, GeneratedSpeaker, ARRAY_TOPOLOGIES, generateArray } from '../utils/arrayGenerator';
+import { calculateSpeedOfSound } from '../utils/physics';
+import { SPEAKER_MODELS, DEFAULT_SPEAKER_MODEL_ID } from '../utils/speakerModels';
+import { X } from 'lucide-react';
+
+interface Props {
+  initialTopology: ArrayTopology;
+  settings: SimulationSettings;
+  onAdd: (name: string, speakers: GeneratedSpeaker[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-xs font-mono';
+
+const PREVIEW_SIZE = 240;
+const PREVIEW_MARGIN = 20;
+
+// Plan preview of the generated layout, scaled to fit; inverted boxes in red
+const ArrayPreview: React.FC<{ speakers: GeneratedSpeaker[] }> = ({ speakers }) => {
+  const xs = speakers.map(s => s.x);
+  const ys = speakers.map(s => s.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const extent = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY, 1);
+  const scale = (PREVIEW_SIZE - 2 * PREVIEW_MARGIN) / extent;
+  const offsetX = (PREVIEW_SIZE - (Math.max(...xs) - minX) * scale) / 2;
+  const offsetY = (PREVIEW_SIZE - (Math.max(...ys) - minY) * scale) / 2;
+  const px = (x: number) => offsetX + (x - minX) * scale;
+  const py = (y: number) => offsetY + (y - minY) * scale;
+
+  return (
+    <svg width={PREVIEW_SIZE} height={PREVIEW_SIZE} className="bg-slate-950 rounded border border-slate-700 shrink-0">
+      {speakers.map((s, i) => {
+        const a = (s.rotation * Math.PI) / 180;
+        const cx = px(s.x);
+        const cy = py(s.y);
+        return (
+          <g key={i}>
+            <line x1={cx} y1={cy} x2={cx + 10 * Math.sin(a)} y2={cy + 10 * Math.cos(a)} stroke="#94a3b8" strokeWidth={1}/>
+            <circle cx={cx} cy={cy} r={4} fill={s.polarity ? '#ef4444' : '#0ea5e9'} opacity={Math.pow(10, s.gain / 40)}/>
+          </g>
+        );
+      })}
+      <text x={6} y={PREVIEW_SIZE - 6} fill="#64748b" fontSize={9}>Audience ↓</text>
+    </svg>
+  );
+};
+
+// Parameters, preview and group name for a generated array; the result is added as a new group
+const ArrayGeneratorDialog: React.FC<Props> = ({ initialTopology, settings, onAdd, onClose }) => {
+  const [params, setParams] = useState<ArrayParams>({
+    topology: initialTopology,
+    count: 4,
+    rows: 3,
+    spacing: 1.2,
+    targetFrequency: settings.frequency,
+    arcAngle: 60,
+    originX: 0,
+    originY: 0,
+    rotation: 0,
+    taper: 'none',
+    taperDepth: 6,
+    modelId: DEFAULT_SPEAKER_MODEL_ID
+  });
+  const [name, setName] = useState('');
+
+  const update = (updates: Partial<ArrayParams>) => setParams({ ...params, ...updates });
+  const topology = ARRAY_TOPOLOGIES.find(t => t.id === params.topology)!;
+  const generated = useMemo(() => generateArray(params, settings.temperature), [params, settings.temperature]);
+
+  const c = calculateSpeedOfSound(settings.temperature);
+  const wavelength = c / params.targetFrequency;
+  const usesDepth = params.topology === 'endfire' || params.topology === 'endfire-columns' || params.topology === 'gradient';
+  const usesSpacing = params.topology !== 'endfire';
+  const countLabel = {
+    line: 'Boxes',
+    arc: 'Boxes',
+    endfire: 'Boxes',
+    'endfire-columns': 'Columns',
+    gradient: 'Pairs',
+    'inverted-stack': 'Clusters'
+  }[params.topology];
+
+  const numberField = (label: string, key: keyof ArrayParams, step: string, min?: number) => (
+    <label className="text-[10px] uppercase text-slate-500">{label}
+      <input
+        type="number" step={step} min={min}
+        value={params[key] as number}
+        onChange={(e) => {
+          const value = Number(e.target.value);
+          update({ [key]: min !== undefined ? Math.max(min, value) : value });
+        }}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6">
+      <div className="w-full max-w-2xl max-h-full flex flex-col bg-gray-900 border border-slate-700 rounded-lg shadow-2xl text-slate-300">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+          <h3 className="text-sm font-semibold text-white">Array Generator</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white"><X size={16}/></button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex gap-4">
+          <div className="flex-1 space-y-3">
+            {/* Topology */}
+            <div>
+              <div className="grid grid-cols-3 gap-1">
+                {ARRAY_TOPOLOGIES.map(t => (
+                  <button
+                    key={t.id}
+                    onClick={() => update({ topology: t.id })}
+                    className={`text-xs py-1.5 rounded border ${params.topology === t.id ? 'border-brand-500 text-brand-500 bg-brand-900/20' : 'border-slate-700 bg-slate-800 hover:bg-slate-700'}`}
+                  >
+                    {t.name}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-500 mt-1">{topology.description}</p>
+            </div>
+
+            {/* Geometry */}
+            <div className="grid grid-cols-3 gap-2">
+              {numberField(countLabel, 'count', '1', 1)}
+              {params.topology === 'endfire-columns' && numberField('Rows', 'rows', '1', 1)}
+              {usesSpacing && numberField('Spacing (m)', 'spacing', '0.1', 0.1)}
+              {params.topology === 'arc' && numberField('Arc (°)', 'arcAngle', '5', 0)}
+              {numberField('Target (Hz)', 'targetFrequency', '1', 10)}
+            </div>
+            <p className="text-[10px] text-slate-500">
+              λ = {wavelength.toFixed(2)} m at {params.targetFrequency} Hz
+              {usesDepth && <> · depth spacing λ/4 = {(wavelength / 4).toFixed(2)} m, {(250 / params.targetFrequency).toFixed(2)} ms per step</>}
+              {usesSpacing && params.spacing > wavelength / 2 && <span className="text-yellow-400"> · spacing above λ/2 will lobe</span>}
+            </p>
+
+            {/* Placement */}
+            <div className="grid grid-cols-3 gap-2">
+              {numberField('Origin X (m)', 'originX', '0.5')}
+              {numberField('Origin Y (m)', 'originY', '0.5')}
+              {numberField('Rotation (°)', 'rotation', '5')}
+            </div>
+
+            {/* Gain taper */}
+            <div className="grid grid-cols-3 gap-2">
+              <label className="text-[10px] uppercase text-slate-500">Taper
+                <select
+                  value={params.taper}
+                  onChange={(e) => update({ taper: e.target.value as GainTaper })}
+                  className={inputClass}
+                >
+                  <option value="none">None</option>
+                  <option value="linear">Linear</option>
+                  <option value="cosine">Cosine</option>
+                </select>
+              </label>
+              {params.taper !== 'none' && numberField('Edge cut (dB)', 'taperDepth', '1', 0)}
+            </div>
+
+            <label className="block text-[10px] uppercase text-slate-500">Model
+              <select value={params.modelId} onChange={(e) => update({ modelId: e.target.value })} className={inputClass}>
+                {SPEAKER_MODELS.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <ArrayPreview speakers={generated} />
+        </div>
+
+        <div className="flex items-center gap-3 px-4 py-3 border-t border-slate-700 text-xs">
+          <span className="text-slate-400">{generated.length} speakers</span>
+          <input
+            type="text"
+            value={name}
+            placeholder={topology.name}
+            onChange={(e) => setName(e.target.value)}
+            className="ml-auto w-48 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs"
+          />
+          <button
+            onClick={() => onAdd(name.trim() || topology.name, generated)}
+            className="px-3 py-1.5 rounded bg-brand-600 hover:bg-brand-500 text-white font-medium"
+          >
+            Add as Group
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArrayGeneratorDialog;
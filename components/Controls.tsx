@@ -1,26 +1,52 @@
-import React from 'react';
-import { Speaker, SimulationSettings, Group } from '../types';
-import { Trash2, Copy, Volume2, VolumeX, Eye, EyeOff, Plus, ArrowLeftRight, Grid, Users, Layers, Activity, Waves } from 'lucide-react';
+import React, { useState } from 'react';
+import { Speaker, SpeakerRole, SignalChannel, SimulationSettings, Group, ViewMode, Boundary, BoundarySettings, BandSettings, LevelScale, Microphone } from '../types';
+import { SPEAKER_MODELS, getSpeakerModel, getSpeakerOutputSpl } from '../utils/speakerModels';
+import { MAX_RESOLUTION, MIN_RESOLUTION, SIGNAL_CHANNELS, getEffectiveDrive } from '../utils/physics';
+import FilterChainEditor from './FilterChainEditor';
+import { ArrayTopology, ARRAY_TOPOLOGIES } from '../utils/arrayGenerator';
+import { Trash2, Copy, Volume2, VolumeX, Eye, EyeOff, Plus, ArrowLeftRight, Grid, Users, Layers, Activity, Waves, Square, BarChart3, Mic, Download, Upload, Undo2, Redo2, Link, SlidersHorizontal, Megaphone, GitMerge, Blend } from 'lucide-react';
 
 interface Props {
   speakers: Speaker[];
   groups: Group[];
   settings: SimulationSettings;
-  viewMode: 'SPL' | 'Phase';
-  onViewModeChange: (mode: 'SPL' | 'Phase') => void;
+  viewMode: ViewMode;
+  onViewModeChange: (mode: ViewMode) => void;
   selectedIds: string[];
   onSettingsChange: (s: SimulationSettings) => void;
   onUpdateSpeakers: (ids: string[], updates: Partial<Speaker>) => void;
   onAddSpeaker: () => void;
+  onAddMainPa: () => void;
   onRemoveSpeakers: (ids: string[]) => void;
   onCloneSpeaker: (id: string) => void;
-  onApplyPreset: (type: 'broadside' | 'endfire' | 'gradient' | 'inverted_stack') => void;
+  onOpenArrayGenerator: (topology: ArrayTopology) => void;
   onCreateGroup: (selectedIds: string[]) => void;
   onUpdateGroup: (id: string, updates: Partial<Group>) => void;
   onDeleteGroup: (id: string) => void;
   onSelectSpeakers: (ids: string[]) => void;
+  mics: Microphone[];
+  onAddMic: () => void;
+  onUpdateMic: (id: string, updates: Partial<Microphone>) => void;
+  onRemoveMic: (id: string) => void;
+  onSaveScene: () => void;
+  onOpenScene: (file: File) => void;
+  onCopyLink: () => void;
+  onImportCsv: () => void;
+  onExportCsv: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
+const BOUNDARY_LABELS: Record<keyof BoundarySettings, string> = {
+  left: 'Left Wall',
+  right: 'Right Wall',
+  back: 'Back Wall',
+  front: 'Front Wall',
+  floor: 'Floor'
+};
+
 const Controls: React.FC<Props> = ({
   speakers,
   groups,
@@ -31,15 +57,32 @@ const Controls: React.FC<Props> = ({
   onSettingsChange,
   onUpdateSpeakers,
   onAddSpeaker,
+  onAddMainPa,
   onRemoveSpeakers,
   onCloneSpeaker,
-  onApplyPreset,
+  onOpenArrayGenerator,
   onCreateGroup,
   onUpdateGroup,
   onDeleteGroup,
-  onSelectSpeakers
+  onSelectSpeakers,
+  mics,
+  onAddMic,
+  onUpdateMic,
+  onRemoveMic,
+  onSaveScene,
+  onOpenScene,
+  onCopyLink,
+  onImportCsv,
+  onExportCsv,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo
 }) => {
   
+  // Group whose DSP chain is unfolded
+  const [dspGroupId, setDspGroupId] = useState<string | null>(null);
+
   // Helpers for multi-selection values
   const selectedSpeakers = speakers.filter(s => selectedIds.includes(s.id));
   const firstSelected = selectedSpeakers[0];
@@ -48,21 +91,89 @@ const Controls: React.FC<Props> = ({
   const displayGain = firstSelected?.gain || 0;
   const displayDelay = firstSelected?.delay || 0;
   const displayPolarity = firstSelected?.polarity || false;
+  // Group processing on top of the speaker's own values
+  const firstGroup = groups.find(g => g.id === firstSelected?.groupId);
+  const effective = firstSelected ? getEffectiveDrive(firstSelected, groups) : null;
+  const uniqueModelIds = Array.from(new Set<string>(selectedSpeakers.map(s => s.modelId)));
+  const commonModel = uniqueModelIds.length === 1 ? getSpeakerModel(uniqueModelIds[0]) : null;
   const displayMute = selectedSpeakers.every(s => s.mute); // All must be muted to show muted
   const displaySolo = selectedSpeakers.some(s => s.solo); // If any solo, show solo
+  const uniqueRoles = Array.from(new Set<SpeakerRole>(selectedSpeakers.map(s => s.role)));
+  const uniqueChannels = Array.from(new Set<SignalChannel>(selectedSpeakers.map(s => s.channel)));
 
   // Determine group state of selection
   const uniqueGroupIds = Array.from(new Set(selectedSpeakers.map(s => s.groupId).filter(Boolean)));
   const commonGroupId = uniqueGroupIds.length === 1 ? uniqueGroupIds[0] : null;
 
+  const updateBand = (updates: Partial<BandSettings>) => {
+    onSettingsChange({ ...settings, band: { ...settings.band, ...updates } });
+  };
+
+  const updateLevelScale = (updates: Partial<LevelScale>) => {
+    onSettingsChange({ ...settings, levelScale: { ...settings.levelScale, ...updates } });
+  };
+
+  const updateBoundary = (key: keyof BoundarySettings, updates: Partial<Boundary>) => {
+    onSettingsChange({
+      ...settings,
+      boundaries: { ...settings.boundaries, [key]: { ...settings.boundaries[key], ...updates } }
+    });
+  };
+
   return (
     <div className="flex flex-col h-full bg-gray-850 text-slate-300 border-l border-slate-700 w-80 shadow-xl overflow-y-auto">
       
       {/* Header */}
       <div className="p-4 border-b border-slate-700 bg-gray-950">
-        <h2 className="text-xl font-bold text-white flex items-center gap-2">
-           <Volume2 className="text-brand-500"/> LowFreq Sim
-        </h2>
+        <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+               <Volume2 className="text-brand-500"/> LowFreq Sim
+            </h2>
+            <div className="flex gap-1">
+                <button 
+                  onClick={onUndo}
+                  disabled={!canUndo}
+                  title="Undo (Ctrl+Z)"
+                  className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent"
+                >
+                  <Undo2 size={14}/>
+                </button>
+                <button 
+                  onClick={onRedo}
+                  disabled={!canRedo}
+                  title="Redo (Ctrl+Shift+Z)"
+                  className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent"
+                >
+                  <Redo2 size={14}/>
+                </button>
+            </div>
+        </div>
+        <div className="flex gap-2 mt-3">
+            <button 
+              onClick={onSaveScene}
+              className="flex-1 flex items-center justify-center gap-1 bg-slate-800 hover:bg-slate-700 text-xs py-1.5 rounded border border-slate-600"
+            >
+              <Download size={12}/> Save Scene
+            </button>
+            <label className="flex-1 flex items-center justify-center gap-1 bg-slate-800 hover:bg-slate-700 text-xs py-1.5 rounded border border-slate-600 cursor-pointer">
+              <Upload size={12}/> Open Scene
+              <input 
+                type="file" accept=".json,application/json" className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onOpenScene(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <button 
+              onClick={onCopyLink}
+              title="Copy a link that opens this scene"
+              className="flex items-center justify-center bg-slate-800 hover:bg-slate-700 text-xs px-2 py-1.5 rounded border border-slate-600"
+            >
+              <Link size={12}/>
+            </button>
+        </div>
       </div>
 
       {/* Global Settings */}
@@ -94,6 +205,27 @@ const Controls: React.FC<Props> = ({
                     />
                 </div>
              </div>
+
+             <div className="grid grid-cols-2 gap-3">
+                <div className='flex flex-col gap-1'>
+                    <label className='text-[10px] uppercase text-slate-500'>Resolution (pts/m)</label>
+                    <input 
+                      type="number" min={MIN_RESOLUTION} max={MAX_RESOLUTION} step="1"
+                      value={settings.resolution}
+                      onChange={(e) => onSettingsChange({...settings, resolution: Math.min(MAX_RESOLUTION, Math.max(MIN_RESOLUTION, Number(e.target.value) || MIN_RESOLUTION))})}
+                      className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm font-mono"
+                    />
+                </div>
+                <div className='flex flex-col gap-1'>
+                    <label className='text-[10px] uppercase text-slate-500'>Listener (m)</label>
+                    <input 
+                      type="number" min="0" step="0.1"
+                      value={settings.listenerHeight}
+                      onChange={(e) => onSettingsChange({...settings, listenerHeight: Math.max(0, Number(e.target.value))})}
+                      className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm font-mono"
+                    />
+                </div>
+             </div>
              
              {/* View Mode Toggle */}
              <div className="bg-slate-800 p-1 rounded-lg flex gap-1">
@@ -109,10 +241,181 @@ const Controls: React.FC<Props> = ({
                  >
                     <Activity size={12} /> Phase
                  </button>
+                 <button 
+                    onClick={() => onViewModeChange('Band')}
+                    className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors flex items-center justify-center gap-1 ${viewMode === 'Band' ? 'bg-brand-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+                 >
+                    <BarChart3 size={12} /> Band
+                 </button>
+                 <button 
+                    onClick={() => onViewModeChange('Crossover')}
+                    title="Phase offset between subs and main PA where both contribute"
+                    className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors flex items-center justify-center gap-1 ${viewMode === 'Crossover' ? 'bg-brand-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+                 >
+                    <GitMerge size={12} /> X-over
+                 </button>
+                 <button 
+                    onClick={() => onViewModeChange('Mono')}
+                    title="Level change when L and R carry the same signal: power alley and cancellation"
+                    className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors flex items-center justify-center gap-1 ${viewMode === 'Mono' ? 'bg-brand-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+                 >
+                    <Blend size={12} /> Mono
+                 </button>
              </div>
+
+             {/* Level Scale */}
+             {viewMode !== 'Phase' && (
+                 <div className="space-y-2">
+                     <div className="bg-slate-800 p-1 rounded-lg flex gap-1">
+                         {[false, true].map(absolute => (
+                             <button 
+                                key={String(absolute)}
+                                onClick={() => updateLevelScale({ absolute })}
+                                className={`flex-1 py-1 text-[10px] font-medium rounded transition-colors ${settings.levelScale.absolute === absolute ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                             >
+                                {absolute ? 'Absolute dB SPL' : 'Relative to Max'}
+                             </button>
+                         ))}
+                     </div>
+                     {settings.levelScale.absolute ? (
+                         <div className="grid grid-cols-2 gap-3">
+                            <div className='flex flex-col gap-1'>
+                                <label className='text-[10px] uppercase text-slate-500'>Scale Min (dB)</label>
+                                <input 
+                                  type="number" step="1"
+                                  value={settings.levelScale.minSpl}
+                                  onChange={(e) => updateLevelScale({ minSpl: Math.min(Number(e.target.value), settings.levelScale.maxSpl - 1) })}
+                                  className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm font-mono"
+                                />
+                            </div>
+                            <div className='flex flex-col gap-1'>
+                                <label className='text-[10px] uppercase text-slate-500'>Scale Max (dB)</label>
+                                <input 
+                                  type="number" step="1"
+                                  value={settings.levelScale.maxSpl}
+                                  onChange={(e) => updateLevelScale({ maxSpl: Math.max(Number(e.target.value), settings.levelScale.minSpl + 1) })}
+                                  className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm font-mono"
+                                />
+                            </div>
+                         </div>
+                     ) : (
+                         <div className='flex flex-col gap-1'>
+                            <label className='text-[10px] uppercase text-slate-500'>Range (dB)</label>
+                            <input 
+                              type="number" min="6" max="80" step="1"
+                              value={settings.dynamicRange}
+                              onChange={(e) => onSettingsChange({...settings, dynamicRange: Math.max(6, Number(e.target.value))})}
+                              className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm font-mono"
+                            />
+                         </div>
+                     )}
+                 </div>
+             )}
+
+             {/* Band Settings */}
+             {viewMode === 'Band' && (
+                 <div className="space-y-2">
+                     <div className="grid grid-cols-2 gap-3">
+                        <div className='flex flex-col gap-1'>
+                            <label className='text-[10px] uppercase text-slate-500'>From (Hz)</label>
+                            <input 
+                              type="number" min="10" max="500" 
+                              value={settings.band.minFrequency}
+                              onChange={(e) => updateBand({ minFrequency: Math.max(10, Number(e.target.value)) })}
+                              className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm font-mono"
+                            />
+                        </div>
+                        <div className='flex flex-col gap-1'>
+                            <label className='text-[10px] uppercase text-slate-500'>To (Hz)</label>
+                            <input 
+                              type="number" min="10" max="500" 
+                              value={settings.band.maxFrequency}
+                              onChange={(e) => updateBand({ maxFrequency: Math.max(10, Number(e.target.value)) })}
+                              className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm font-mono"
+                            />
+                        </div>
+                        <div className='flex flex-col gap-1'>
+                            <label className='text-[10px] uppercase text-slate-500'>Spacing</label>
+                            <select 
+                              value={settings.band.pointsPerOctave}
+                              onChange={(e) => updateBand({ pointsPerOctave: Number(e.target.value) as BandSettings['pointsPerOctave'] })}
+                              className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs"
+                            >
+                                <option value={3}>1/3 octave</option>
+                                <option value={12}>1/12 octave</option>
+                            </select>
+                        </div>
+                        <div className='flex flex-col gap-1'>
+                            <label className='text-[10px] uppercase text-slate-500'>Weighting</label>
+                            <select 
+                              value={settings.band.weighting}
+                              onChange={(e) => updateBand({ weighting: e.target.value as BandSettings['weighting'] })}
+                              className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs"
+                            >
+                                <option value="Z">Z (flat)</option>
+                                <option value="A">A</option>
+                                <option value="C">C</option>
+                            </select>
+                        </div>
+                     </div>
+                     <div className="bg-slate-800 p-1 rounded-lg flex gap-1">
+                         {(['average', 'worst'] as const).map(stat => (
+                             <button 
+                                key={stat}
+                                onClick={() => updateBand({ statistic: stat })}
+                                className={`flex-1 py-1 text-[10px] font-medium rounded transition-colors ${settings.band.statistic === stat ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                             >
+                                {stat === 'average' ? 'Power Average' : 'Worst Case'}
+                             </button>
+                         ))}
+                     </div>
+                 </div>
+             )}
          </div>
       </div>
 
+      {/* Boundaries */}
+      <div className="p-4 border-b border-slate-700">
+          <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-500 flex items-center gap-1 mb-3">
+              <Square size={12}/> Boundaries
+          </h3>
+          <div className="grid grid-cols-[1fr_3.5rem_3rem] gap-x-2 gap-y-1 items-center">
+              <span/>
+              <span className="text-[10px] uppercase text-slate-500">Refl.</span>
+              <span className="text-[10px] uppercase text-slate-500">Order</span>
+              {(Object.keys(BOUNDARY_LABELS) as (keyof BoundarySettings)[]).map(key => {
+                  const b = settings.boundaries[key];
+                  return (
+                      <React.Fragment key={key}>
+                          <label className="flex items-center gap-2 text-xs text-slate-400">
+                              <input 
+                                type="checkbox"
+                                checked={b.enabled}
+                                onChange={(e) => updateBoundary(key, { enabled: e.target.checked })}
+                                className="accent-brand-500"
+                              />
+                              {BOUNDARY_LABELS[key]}
+                          </label>
+                          <input 
+                            type="number" min="0" max="1" step="0.05"
+                            value={b.reflection}
+                            disabled={!b.enabled}
+                            onChange={(e) => updateBoundary(key, { reflection: Math.min(1, Math.max(0, Number(e.target.value))) })}
+                            className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-xs font-mono disabled:opacity-40"
+                          />
+                          <input 
+                            type="number" min="1" max={key === 'floor' ? 1 : 4} step="1"
+                            value={b.order}
+                            disabled={!b.enabled || key === 'floor'}
+                            onChange={(e) => updateBoundary(key, { order: Math.min(4, Math.max(1, Math.round(Number(e.target.value)))) })}
+                            className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-xs font-mono disabled:opacity-40"
+                          />
+                      </React.Fragment>
+                  );
+              })}
+          </div>
+      </div>
+
       {/* Group Manager */}
       <div className="p-4 border-b border-slate-700 bg-gray-900/30">
           <div className="flex items-center justify-between mb-3">
@@ -127,8 +430,9 @@ const Controls: React.FC<Props> = ({
           <div className="space-y-2">
              {groups.length === 0 && <p className="text-xs text-slate-600 italic">No groups created</p>}
              {groups.map(g => (
-                 <div key={g.id} className="flex items-center gap-2 bg-slate-800/50 p-2 rounded border border-slate-700/50">
-                     <div className="w-3 h-3 rounded-full" style={{ backgroundColor: g.color }} />
+                 <div key={g.id} className="bg-slate-800/50 p-2 rounded border border-slate-700/50">
+                   <div className="flex items-center gap-2">
+                     <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: g.color }} />
                      <input 
                         className="bg-transparent border-none text-xs font-medium text-white w-full focus:outline-none focus:bg-slate-800 px-1 rounded"
                         value={g.name}
@@ -168,6 +472,93 @@ const Controls: React.FC<Props> = ({
                             <Trash2 size={12}/>
                         </button>
                      </div>
+                   </div>
+                   {/* Shared DSP output: added to every member's own gain, delay and polarity */}
+                   <div className="flex items-center gap-2 mt-1.5 pl-5">
+                     <label className="flex items-center gap-1 text-[10px] text-slate-500">
+                       Gain
+                       <input
+                         type="number" step="0.5"
+                         value={g.gain}
+                         onChange={(e) => onUpdateGroup(g.id, { gain: Number(e.target.value) })}
+                         className="w-12 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] font-mono text-slate-300"
+                       />
+                     </label>
+                     <label className="flex items-center gap-1 text-[10px] text-slate-500">
+                       Delay
+                       <input
+                         type="number" step="0.1" min="0"
+                         value={g.delay}
+                         onChange={(e) => onUpdateGroup(g.id, { delay: Math.max(0, Number(e.target.value)) })}
+                         className="w-14 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] font-mono text-slate-300"
+                       />
+                     </label>
+                     <button
+                       onClick={() => onUpdateGroup(g.id, { polarity: !g.polarity })}
+                       className={`ml-auto p-1 rounded ${g.polarity ? 'bg-yellow-500/20 text-yellow-500' : 'text-slate-500 hover:text-slate-300'}`}
+                       title="Invert Group Polarity"
+                     >
+                       <ArrowLeftRight size={12}/>
+                     </button>
+                     <button
+                       onClick={() => setDspGroupId(dspGroupId === g.id ? null : g.id)}
+                       className={`p-1 rounded ${dspGroupId === g.id || g.filters.length > 0 ? 'text-brand-500' : 'text-slate-500 hover:text-slate-300'}`}
+                       title="Group DSP Chain"
+                     >
+                       <SlidersHorizontal size={12}/>
+                     </button>
+                   </div>
+                   {dspGroupId === g.id && (
+                     <div className="mt-2 pl-5">
+                       <FilterChainEditor filters={g.filters} color={g.color} onChange={(filters) => onUpdateGroup(g.id, { filters })} />
+                     </div>
+                   )}
+                 </div>
+             ))}
+          </div>
+      </div>
+
+      {/* Microphones */}
+      <div className="p-4 border-b border-slate-700">
+          <div className="flex items-center justify-between mb-3">
+             <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-500 flex items-center gap-1">
+                 <Mic size={12}/> Microphones
+             </h3>
+             <button onClick={onAddMic} className="text-[10px] bg-slate-800 hover:bg-slate-700 px-2 py-1 rounded border border-slate-700">
+                 + Add Mic
+             </button>
+          </div>
+
+          <div className="space-y-2">
+             {mics.length === 0 && <p className="text-xs text-slate-600 italic">Double-click the plan to place one</p>}
+             {mics.map(m => (
+                 <div key={m.id} className="flex items-center gap-2 bg-slate-800/50 p-2 rounded border border-slate-700/50">
+                     <input 
+                        type="color"
+                        value={m.color}
+                        onChange={(e) => onUpdateMic(m.id, { color: e.target.value })}
+                        className="w-4 h-4 bg-transparent border-none cursor-pointer"
+                        title="Trace Color"
+                     />
+                     <input 
+                        className="bg-transparent border-none text-xs font-medium text-white w-full focus:outline-none focus:bg-slate-800 px-1 rounded"
+                        value={m.name}
+                        onChange={(e) => onUpdateMic(m.id, { name: e.target.value })}
+                     />
+                     <input 
+                        type="number" step="0.1" min="0"
+                        value={m.z}
+                        onChange={(e) => onUpdateMic(m.id, { z: Math.max(0, Number(e.target.value)) })}
+                        className="w-14 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-xs font-mono"
+                        title="Height (m)"
+                     />
+                     <button 
+                        onClick={() => onRemoveMic(m.id)}
+                        className="p-1 text-slate-600 hover:text-red-400"
+                        title="Remove Mic"
+                     >
+                        <Trash2 size={12}/>
+                     </button>
                  </div>
              ))}
           </div>
@@ -231,9 +622,58 @@ const Controls: React.FC<Props> = ({
                 </div>
             </div>
 
+            {/* Role: subs and main PA are shown apart in the crossover view and mic responses */}
+            <div className="bg-slate-800 p-1 rounded-lg flex gap-1">
+                {(['sub', 'main'] as SpeakerRole[]).map(role => (
+                    <button
+                        key={role}
+                        onClick={() => onUpdateSpeakers(selectedIds, { role })}
+                        className={`flex-1 py-1 text-[10px] font-medium rounded transition-colors ${uniqueRoles.length === 1 && uniqueRoles[0] === role ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                    >
+                        {role === 'sub' ? 'Subwoofer' : 'Main PA'}
+                    </button>
+                ))}
+            </div>
+
+            {/* Signal channel: same channel interferes, different channels add in power */}
+            <div>
+                <label className="text-[10px] text-slate-400 block mb-1">Channel</label>
+                <div className="bg-slate-800 p-1 rounded-lg flex gap-1">
+                    {SIGNAL_CHANNELS.map(c => (
+                        <button
+                            key={c.id}
+                            onClick={() => onUpdateSpeakers(selectedIds, { channel: c.id })}
+                            className={`flex-1 py-1 text-[10px] font-medium rounded transition-colors ${uniqueChannels.length === 1 && uniqueChannels[0] === c.id ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                            {c.name}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Loudspeaker Model */}
+            <div>
+                 <label className="text-[10px] text-slate-400 block mb-1">Model</label>
+                 <select 
+                    className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs"
+                    value={commonModel?.id ?? 'mixed'}
+                    onChange={(e) => onUpdateSpeakers(selectedIds, { modelId: e.target.value })}
+                 >
+                    {!commonModel && <option value="mixed" disabled>-- Mixed --</option>}
+                    {SPEAKER_MODELS.map(m => (
+                        <option key={m.id} value={m.id}>{m.name}</option>
+                    ))}
+                 </select>
+                 {commonModel && (
+                     <p className="text-[10px] text-slate-500 mt-1 font-mono">
+                        {commonModel.sensitivity} dB sens. / {commonModel.maxSpl} dB max @1m
+                     </p>
+                 )}
+            </div>
+
             {/* Position Controls (Only for single selection ideally, or relative for multi - disable for multi for now to simple) */}
             {selectedSpeakers.length === 1 && (
-                <div className="grid grid-cols-2 gap-4">
+                <div className="grid grid-cols-3 gap-4">
                 <div>
                     <label className="text-[10px] text-slate-400 block mb-1">X (m)</label>
                     <input 
@@ -252,13 +692,33 @@ const Controls: React.FC<Props> = ({
                     className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm"
                     />
                 </div>
+                <div>
+                    <label className="text-[10px] text-slate-400 block mb-1">Z (m)</label>
+                    <input 
+                    type="number" step="0.01" min="0"
+                    value={firstSelected.z}
+                    onChange={(e) => onUpdateSpeakers([firstSelected.id], { z: Math.max(0, Number(e.target.value)) })}
+                    className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm"
+                    />
+                </div>
                 </div>
             )}
 
+            {/* Aim */}
+            <div>
+                <label className="text-[10px] text-slate-400 block mb-1">Aim (° from front, + towards +x)</label>
+                <input 
+                  type="number" step="1" min="-180" max="180"
+                  value={firstSelected.rotation}
+                  onChange={(e) => onUpdateSpeakers(selectedIds, { rotation: Number(e.target.value) })}
+                  className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm"
+                />
+            </div>
+
             {/* Common Acoustic Params */}
             <div>
               <div className="flex justify-between mb-1">
-                <label className="text-xs text-slate-400">Gain (dB)</label>
+                <label className="text-xs text-slate-400">Gain / Drive (dB)</label>
                 <span className="text-xs font-mono">{displayGain.toFixed(1)}</span>
               </div>
               <input 
@@ -267,6 +727,16 @@ const Controls: React.FC<Props> = ({
                 onChange={(e) => onUpdateSpeakers(selectedIds, { gain: Number(e.target.value) })}
                 className="w-full accent-green-500 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer"
               />
+              {firstGroup && effective && (
+                  <p className="text-[10px] mt-1 font-mono text-slate-500">
+                     Speaker {displayGain.toFixed(1)} + group {firstGroup.gain.toFixed(1)} = <span className="text-slate-300">{effective.gain.toFixed(1)} dB</span>
+                  </p>
+              )}
+              {commonModel && selectedSpeakers.length === 1 && (
+                  <p className={`text-[10px] mt-1 font-mono ${getSpeakerOutputSpl(firstSelected, firstGroup) > commonModel.maxSpl ? 'text-red-400' : 'text-slate-500'}`}>
+                     {getSpeakerOutputSpl(firstSelected, firstGroup).toFixed(1)} dB SPL @1m (limit {commonModel.maxSpl})
+                  </p>
+              )}
             </div>
 
             <div>
@@ -280,6 +750,11 @@ const Controls: React.FC<Props> = ({
                 onChange={(e) => onUpdateSpeakers(selectedIds, { delay: Number(e.target.value) })}
                 className="w-full accent-orange-500 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer"
               />
+              {firstGroup && effective && (
+                  <p className="text-[10px] mt-1 font-mono text-slate-500">
+                     Speaker {displayDelay.toFixed(2)} + group {firstGroup.delay.toFixed(2)} = <span className="text-slate-300">{effective.delay.toFixed(2)} ms</span>
+                  </p>
+              )}
             </div>
 
             {/* Buttons */}
@@ -303,6 +778,23 @@ const Controls: React.FC<Props> = ({
                   {displaySolo ? <Eye size={14}/> : <EyeOff size={14}/>} Solo
                 </button>
             </div>
+            {firstGroup && effective && (
+                <p className="text-[10px] font-mono text-slate-500">
+                   Polarity: speaker {displayPolarity ? 'inv' : 'norm'}, group {firstGroup.polarity ? 'inv' : 'norm'} = <span className={effective.polarity ? 'text-yellow-500' : 'text-slate-300'}>{effective.polarity ? 'inverted' : 'normal'}</span>
+                </p>
+            )}
+
+            {/* DSP chain, written to every selected speaker */}
+            <div>
+              <label className="text-xs text-slate-400 flex items-center gap-1 mb-1">
+                <SlidersHorizontal size={12}/> DSP Chain
+                {firstGroup && firstGroup.filters.length > 0 && <span className="text-[10px] text-slate-500">(after {firstGroup.filters.length} group filter{firstGroup.filters.length === 1 ? '' : 's'})</span>}
+              </label>
+              <FilterChainEditor
+                filters={firstSelected.filters}
+                onChange={(filters) => onUpdateSpeakers(selectedIds, { filters })}
+              />
+            </div>
 
             <div className="flex items-center gap-2 mt-4 pt-4 border-t border-slate-700">
                {selectedIds.length === 1 && (
@@ -341,13 +833,23 @@ const Controls: React.FC<Props> = ({
         >
             <Plus size={18} /> Add Subwoofer
         </button>
+        <button 
+            onClick={onAddMainPa}
+            className="w-full py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded font-medium flex items-center justify-center gap-2 -mt-2 mb-4 border border-slate-700 transition-colors"
+        >
+            <Megaphone size={16} /> Add Main PA
+        </button>
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+           <button onClick={onImportCsv} className="text-xs bg-slate-800 hover:bg-slate-700 py-2 rounded text-slate-300 border border-slate-700 flex items-center justify-center gap-1"><Upload size={12}/> Import CSV</button>
+           <button onClick={onExportCsv} className="text-xs bg-slate-800 hover:bg-slate-700 py-2 rounded text-slate-300 border border-slate-700 flex items-center justify-center gap-1"><Download size={12}/> Export CSV</button>
+        </div>
         
-        <h4 className="text-[10px] uppercase font-bold text-slate-500 mb-2">Quick Arrays</h4>
+        <h4 className="text-[10px] uppercase font-bold text-slate-500 mb-2">Array Generator</h4>
         <div className="grid grid-cols-2 gap-2">
-           <button onClick={() => onApplyPreset('broadside')} className="text-xs bg-slate-800 hover:bg-slate-700 py-2 rounded text-slate-300 border border-slate-700">Line</button>
-           <button onClick={() => onApplyPreset('endfire')} className="text-xs bg-slate-800 hover:bg-slate-700 py-2 rounded text-slate-300 border border-slate-700">End-Fire</button>
-           <button onClick={() => onApplyPreset('gradient')} className="text-xs bg-slate-800 hover:bg-slate-700 py-2 rounded text-slate-300 border border-slate-700">Cardioid</button>
-           <button onClick={() => onApplyPreset('inverted_stack')} className="text-xs bg-slate-800 hover:bg-slate-700 py-2 rounded text-slate-300 border border-slate-700">Stack</button>
+           {ARRAY_TOPOLOGIES.map(t => (
+             <button key={t.id} onClick={() => onOpenArrayGenerator(t.id)} title={t.description} className="text-xs bg-slate-800 hover:bg-slate-700 py-2 rounded text-slate-300 border border-slate-700">{t.name}</button>
+           ))}
         </div>
       </div>
     </div>
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { Group } from '../types';
+import {
+  SPEAKER_CSV_FIELDS, SpeakerCsvField, SpeakerCsvMapping, SpeakerCsvUnits, LengthUnit, DelayUnit,
+  LENGTH_UNITS, DELAY_UNITS, ImportedSpeaker, parseCsv, guessSpeakerCsvMapping, buildSpeakerCsvPreview
+} from '../utils/speakerCsv';
+import { Upload, X, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  groups: Group[];
+  onImport: (speakers: ImportedSpeaker[], replace: boolean) => void;
+  onClose: () => void;
+}
+
+const REQUIRED_FIELDS: SpeakerCsvField[] = ['x', 'y'];
+
+// Rows shown in the preview table; the rest are still validated and imported
+const PREVIEW_LIMIT = 200;
+
+// Map the file's columns onto speaker fields, pick units and check every row before importing
+const CsvImportDialog: React.FC<Props> = ({ groups, onImport, onClose }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<{ line: number; cells: string[] }[]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<SpeakerCsvMapping | null>(null);
+  const [units, setUnits] = useState<SpeakerCsvUnits>({ length: 'm', delay: 'ms' });
+  const [replace, setReplace] = useState(false);
+
+  const columnCount = rows.reduce((n, r) => Math.max(n, r.cells.length), 0);
+  const headers = hasHeader && rows.length > 0
+    ? Array.from({ length: columnCount }, (_, i) => rows[0].cells[i] || `Column ${i + 1}`)
+    : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  // Without a header, assume the export column order
+  const defaultMapping = (withHeader: boolean, parsed: typeof rows): SpeakerCsvMapping => {
+    if (withHeader && parsed.length > 0) return guessSpeakerCsvMapping(parsed[0].cells);
+    const count = parsed.reduce((n, r) => Math.max(n, r.cells.length), 0);
+    return Object.fromEntries(SPEAKER_CSV_FIELDS.map((f, i) => [f, i < count ? i : null])) as SpeakerCsvMapping;
+  };
+
+  const loadFile = async (file: File) => {
+    const parsed = parseCsv(await file.text());
+    setFileName(file.name);
+    setRows(parsed);
+    setMapping(defaultMapping(hasHeader, parsed));
+  };
+
+  const toggleHeader = (value: boolean) => {
+    setHasHeader(value);
+    setMapping(defaultMapping(value, rows));
+  };
+
+  const preview = useMemo(
+    () => mapping ? buildSpeakerCsvPreview(dataRows, mapping, units, groups) : null,
+    [rows, hasHeader, mapping, units, groups]
+  );
+
+  const validSpeakers = preview ? preview.rows.flatMap(r => r.speaker ? [r.speaker] : []) : [];
+  const errorCount = preview ? preview.rows.filter(r => r.errors.length > 0).length : 0;
+  const missingRequired = mapping ? REQUIRED_FIELDS.filter(f => mapping[f] === null) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6">
+      <div className="w-full max-w-4xl max-h-full flex flex-col bg-gray-900 border border-slate-700 rounded-lg shadow-2xl text-slate-300">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+          <h3 className="text-sm font-semibold text-white">Import Speakers from CSV</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white"><X size={16}/></button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {/* File */}
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1 bg-slate-800 hover:bg-slate-700 text-xs px-3 py-1.5 rounded border border-slate-600 cursor-pointer">
+              <Upload size={12}/> Choose File
+              <input
+                type="file" accept=".csv,.txt,text/csv" className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) loadFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <span className="text-xs text-slate-500">{fileName ? `${fileName} — ${dataRows.length} rows` : 'Columns: name, x, y, z, gain, delay, polarity, mute, group'}</span>
+            <label className="ml-auto flex items-center gap-1 text-xs">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => toggleHeader(e.target.checked)} className="accent-brand-500"/>
+              First row is a header
+            </label>
+          </div>
+
+          {mapping && (
+            <>
+              {/* Column mapping */}
+              <div>
+                <h4 className="text-[10px] uppercase font-bold text-slate-500 mb-2">Columns</h4>
+                <div className="grid grid-cols-3 gap-x-4 gap-y-2">
+                  {SPEAKER_CSV_FIELDS.map(field => (
+                    <label key={field} className="flex items-center gap-2 text-xs">
+                      <span className={`w-14 ${REQUIRED_FIELDS.includes(field) ? 'text-slate-200' : 'text-slate-400'}`}>{field}</span>
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                        className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-xs"
+                      >
+                        <option value="">— not in file —</option>
+                        {headers.map((h, i) => <option key={i} value={i}>{h}</option>)}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Units */}
+              <div className="flex gap-6 text-xs">
+                <label className="flex items-center gap-2">
+                  Positions in
+                  <select
+                    value={units.length}
+                    onChange={(e) => setUnits({ ...units, length: e.target.value as LengthUnit })}
+                    className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5"
+                  >
+                    {(Object.keys(LENGTH_UNITS) as LengthUnit[]).map(u => <option key={u} value={u}>{u}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  Delays in
+                  <select
+                    value={units.delay}
+                    onChange={(e) => setUnits({ ...units, delay: e.target.value as DelayUnit })}
+                    className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5"
+                  >
+                    {(Object.keys(DELAY_UNITS) as DelayUnit[]).map(u => <option key={u} value={u}>{u === 'us' ? 'µs' : u}</option>)}
+                  </select>
+                </label>
+                <span className="text-slate-500">Gains in dB.</span>
+              </div>
+
+              {/* Preview */}
+              {preview && (
+                <div className="border border-slate-700 rounded overflow-auto max-h-72">
+                  <table className="w-full text-[11px] font-mono">
+                    <thead className="bg-slate-800 text-slate-400 sticky top-0">
+                      <tr>
+                        <th className="px-2 py-1 text-left">Line</th>
+                        <th className="px-2 py-1 text-left">Name</th>
+                        <th className="px-2 py-1 text-right">X (m)</th>
+                        <th className="px-2 py-1 text-right">Y (m)</th>
+                        <th className="px-2 py-1 text-right">Z (m)</th>
+                        <th className="px-2 py-1 text-right">Gain</th>
+                        <th className="px-2 py-1 text-right">Delay (ms)</th>
+                        <th className="px-2 py-1 text-left">Pol.</th>
+                        <th className="px-2 py-1 text-left">Mute</th>
+                        <th className="px-2 py-1 text-left">Group</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.slice(0, PREVIEW_LIMIT).map(r => r.speaker ? (
+                        <tr key={r.line} className="border-t border-slate-800">
+                          <td className="px-2 py-0.5 text-slate-500">{r.line}</td>
+                          <td className="px-2 py-0.5">{r.speaker.name}</td>
+                          <td className="px-2 py-0.5 text-right">{r.speaker.x.toFixed(2)}</td>
+                          <td className="px-2 py-0.5 text-right">{r.speaker.y.toFixed(2)}</td>
+                          <td className="px-2 py-0.5 text-right">{r.speaker.z.toFixed(2)}</td>
+                          <td className="px-2 py-0.5 text-right">{r.speaker.gain.toFixed(1)}</td>
+                          <td className="px-2 py-0.5 text-right">{r.speaker.delay.toFixed(2)}</td>
+                          <td className="px-2 py-0.5">{r.speaker.polarity ? 'inv' : ''}</td>
+                          <td className="px-2 py-0.5">{r.speaker.mute ? 'yes' : ''}</td>
+                          <td className="px-2 py-0.5">
+                            {r.speaker.groupName}
+                            {preview.newGroupNames.includes(r.speaker.groupName) && <span className="ml-1 text-brand-500">(new)</span>}
+                          </td>
+                        </tr>
+                      ) : (
+                        <tr key={r.line} className="border-t border-slate-800 bg-red-950/40 text-red-300">
+                          <td className="px-2 py-0.5">{r.line}</td>
+                          <td colSpan={9} className="px-2 py-0.5">
+                            <AlertTriangle size={10} className="inline mr-1"/>{r.errors.join('; ')}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {preview.rows.length > PREVIEW_LIMIT && (
+                    <p className="px-2 py-1 text-[10px] text-slate-500">…and {preview.rows.length - PREVIEW_LIMIT} more rows</p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 px-4 py-3 border-t border-slate-700 text-xs">
+          <span className="text-slate-400">
+            {missingRequired.length > 0
+              ? <span className="text-red-300">Map a column to {missingRequired.join(' and ')}.</span>
+              : preview && <>
+                  {validSpeakers.length} valid
+                  {errorCount > 0 && <span className="text-red-300">, {errorCount} with errors (skipped)</span>}
+                  {preview.newGroupNames.length > 0 && <>, new groups: {preview.newGroupNames.join(', ')}</>}
+                </>}
+          </span>
+          <label className="ml-auto flex items-center gap-1">
+            <input type="checkbox" checked={replace} onChange={(e) => setReplace(e.target.checked)} className="accent-brand-500"/>
+            Replace existing speakers
+          </label>
+          <button
+            onClick={() => onImport(validSpeakers, replace)}
+            disabled={validSpeakers.length === 0 || missingRequired.length > 0}
+            className="px-3 py-1.5 rounded bg-brand-600 hover:bg-brand-500 disabled:opacity-40 disabled:hover:bg-brand-600 text-white font-medium"
+          >
+            Import {validSpeakers.length > 0 ? validSpeakers.length : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportDialog;
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { DspFilter, FilterType, FilterAlignment } from '../types';
+import { FILTER_TYPES, LINKWITZ_RILEY_ORDERS, MAX_FILTER_ORDER, createFilter, chainCurve } from '../utils/dsp';
+import { getLogFrequencies } from '../utils/physics';
+import ResponsePlot from './ResponsePlot';
+import { ChevronUp, ChevronDown, Trash2, Power } from 'lucide-react';
+
+interface Props {
+  filters: DspFilter[];
+  onChange: (filters: DspFilter[]) => void;
+  color?: string; // plot trace
+}
+
+const MIN_FREQUENCY = 10;
+const MAX_FREQUENCY = 500;
+const POINTS_PER_OCTAVE = 24;
+
+const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] font-mono text-slate-300';
+
+// Ordered filter list with per-type parameters and the chain's combined magnitude / phase
+const FilterChainEditor: React.FC<Props> = ({ filters, onChange, color = '#38bdf8' }) => {
+  const [newType, setNewType] = useState<FilterType>('lowpass');
+
+  const points = useMemo(
+    () => chainCurve(filters, getLogFrequencies(MIN_FREQUENCY, MAX_FREQUENCY, POINTS_PER_OCTAVE)),
+    [filters]
+  );
+
+  const update = (index: number, updates: Partial<DspFilter>) =>
+    onChange(filters.map((f, i) => i === index ? { ...f, ...updates } : f));
+
+  const move = (index: number, offset: number) => {
+    const next = [...filters];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    onChange(next);
+  };
+
+  // Linkwitz-Riley only comes in even orders; snap to the nearest one
+  const setAlignment = (index: number, alignment: FilterAlignment) => {
+    const order = filters[index].order;
+    update(index, {
+      alignment,
+      order: alignment === 'linkwitz-riley'
+        ? LINKWITZ_RILEY_ORDERS.reduce((best, o) => Math.abs(o - order) < Math.abs(best - order) ? o : best)
+        : order
+    });
+  };
+
+  const numberInput = (index: number, key: 'frequency' | 'q' | 'gain', step: string, min?: number) => (
+    <input
+      type="number" step={step} min={min}
+      value={filters[index][key]}
+      onChange={(e) => {
+        const value = Number(e.target.value);
+        update(index, { [key]: min !== undefined ? Math.max(min, value) : value });
+      }}
+      className={inputClass}
+    />
+  );
+
+  return (
+    <div className="space-y-2">
+      {filters.length > 0 && (
+        <div className="h-24 bg-slate-950 rounded border border-slate-800">
+          <ResponsePlot
+            traces={[{ id: 'chain', name: 'Chain', color, points }]}
+            minFrequency={MIN_FREQUENCY}
+            maxFrequency={MAX_FREQUENCY}
+            magnitudeRange={30}
+          />
+        </div>
+      )}
+
+      {filters.map((f, i) => {
+        const passFilter = f.type === 'lowpass' || f.type === 'highpass';
+        const orders = passFilter && f.alignment === 'linkwitz-riley'
+          ? LINKWITZ_RILEY_ORDERS
+          : f.type === 'allpass' ? [1, 2] : Array.from({ length: MAX_FILTER_ORDER }, (_, o) => o + 1);
+        return (
+          <div key={i} className={`p-1.5 rounded border border-slate-700/70 bg-slate-800/40 space-y-1 ${f.bypass ? 'opacity-50' : ''}`}>
+            <div className="flex items-center gap-1">
+              <span className="text-[10px] text-slate-500 w-3">{i + 1}</span>
+              <span className="text-[10px] font-medium text-slate-300 flex-1">{FILTER_TYPES.find(t => t.id === f.type)?.name}</span>
+              <button onClick={() => update(i, { bypass: !f.bypass })} className={`p-0.5 ${f.bypass ? 'text-slate-600' : 'text-green-500'}`} title={f.bypass ? 'Enable' : 'Bypass'}><Power size={10}/></button>
+              <button onClick={() => move(i, -1)} disabled={i === 0} className="p-0.5 text-slate-500 hover:text-white disabled:opacity-30"><ChevronUp size={10}/></button>
+              <button onClick={() => move(i, 1)} disabled={i === filters.length - 1} className="p-0.5 text-slate-500 hover:text-white disabled:opacity-30"><ChevronDown size={10}/></button>
+              <button onClick={() => onChange(filters.filter((_, j) => j !== i))} className="p-0.5 text-slate-600 hover:text-red-400"><Trash2 size={10}/></button>
+            </div>
+            <div className="grid grid-cols-3 gap-1">
+              <label className="text-[9px] uppercase text-slate-500">Hz{numberInput(i, 'frequency', '1', 1)}</label>
+              {(passFilter || f.type === 'allpass') && (
+                <label className="text-[9px] uppercase text-slate-500">Order
+                  <select value={f.order} onChange={(e) => update(i, { order: Number(e.target.value) })} className={inputClass}>
+                    {orders.map(o => <option key={o} value={o}>{o}</option>)}
+                  </select>
+                </label>
+              )}
+              {passFilter && (
+                <label className="text-[9px] uppercase text-slate-500">Type
+                  <select value={f.alignment} onChange={(e) => setAlignment(i, e.target.value as FilterAlignment)} className={inputClass}>
+                    <option value="butterworth">BW</option>
+                    <option value="linkwitz-riley">LR</option>
+                  </select>
+                </label>
+              )}
+              {(f.type === 'peak' || f.type === 'lowshelf' || f.type === 'highshelf' || (f.type === 'allpass' && f.order === 2)) && (
+                <label className="text-[9px] uppercase text-slate-500">Q{numberInput(i, 'q', '0.1', 0.1)}</label>
+              )}
+              {(f.type === 'peak' || f.type === 'lowshelf' || f.type === 'highshelf') && (
+                <label className="text-[9px] uppercase text-slate-500">dB{numberInput(i, 'gain', '0.5')}</label>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-1">
+        <select value={newType} onChange={(e) => setNewType(e.target.value as FilterType)} className="flex-1 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-[10px]">
+          {FILTER_TYPES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+        <button onClick={() => onChange([...filters, createFilter(newType)])} className="text-[10px] bg-slate-800 hover:bg-slate-700 px-2 py-0.5 rounded border border-slate-700">
+          + Add Filter
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FilterChainEditor;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { SimulationSettings, ViewMode } from '../types';
+import { getHeatmapGradient, getLevelLegend } from '../utils/heatmap';
+
+interface Props {
+  settings: SimulationSettings;
+  viewMode: ViewMode;
+}
+
+// Color bar for the SPL and band heatmaps, labelled from the active level scale
+const LevelLegend: React.FC<Props> = ({ settings, viewMode }) => {
+  const { band } = settings;
+  const { min, max, unit } = getLevelLegend(settings, viewMode);
+
+  return (
+    <span className="flex items-center gap-2">
+      {viewMode === 'Band' && <span className="mr-1">{band.minFrequency}–{band.maxFrequency}Hz {band.statistic === 'worst' ? 'worst case' : 'average'}</span>}
+      <span className="font-mono">{min}</span>
+      <span className="w-32 h-3 rounded-sm inline-block" style={{ background: getHeatmapGradient() }}/>
+      <span className="font-mono">{max}</span>
+      <span>{unit}</span>
+    </span>
+  );
+};
+
+export default LevelLegend;
@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Speaker, Group, SimulationSettings, Microphone } from '../types';
+import type { MicResponse, ResponseJob, ResponseJobResult } from '../workers/responseWorker';
+import ResponsePlot, { ResponseTrace } from './ResponsePlot';
+
+interface Props {
+  speakers: Speaker[];
+  groups: Group[];
+  settings: SimulationSettings;
+  mics: Microphone[];
+}
+
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 200;
+const POINTS_PER_OCTAVE = 24;
+
+// Dash patterns for the split traces; the combined response stays solid
+const SUB_DASH = '5 3';
+const MAIN_DASH = '1.5 2';
+
+const MicResponsePanel: React.FC<Props> = ({ speakers, groups, settings, mics }) => {
+  const [split, setSplit] = useState(true);
+  const hasBothRoles = speakers.some(s => s.role === 'sub') && speakers.some(s => s.role === 'main');
+  const showSplit = split && hasBothRoles;
+
+  // Sweeps run in a worker; results for superseded jobs are dropped
+  const workerRef = useRef<Worker | null>(null);
+  const jobIdRef = useRef(0);
+  const [responses, setResponses] = useState<MicResponse[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/responseWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ResponseJobResult>) => {
+      if (e.data.jobId !== jobIdRef.current) return;
+      setError(e.data.error);
+      if (!e.data.error) setResponses(e.data.responses);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const job: ResponseJob = {
+      jobId: ++jobIdRef.current,
+      speakers,
+      groups,
+      settings,
+      mics,
+      split: showSplit,
+      minFrequency: MIN_FREQUENCY,
+      maxFrequency: MAX_FREQUENCY,
+      pointsPerOctave: POINTS_PER_OCTAVE
+    };
+    workerRef.current?.postMessage(job);
+  }, [speakers, groups, settings, mics, showSplit]);
+
+  const traces = useMemo(() => {
+    const traces: ResponseTrace[] = [];
+    responses.forEach(r => {
+      const m = mics.find(m => m.id === r.micId);
+      if (!m) return;
+      traces.push({ id: m.id, name: m.name, color: m.color, points: r.combined });
+      // Subs and main PA on their own, to read the crossover summation at this mic
+      if (r.sub) traces.push({ id: `${m.id}-sub`, name: `${m.name} subs`, color: m.color, dash: SUB_DASH, points: r.sub });
+      if (r.main) traces.push({ id: `${m.id}-main`, name: `${m.name} main PA`, color: m.color, dash: MAIN_DASH, points: r.main });
+    });
+    return traces;
+  }, [responses, mics]);
+
+  // Uncorrelated channels have no common phase; the plot leaves those traces out of the phase pane
+  const phaseHidden = traces.some(t => t.points.some(p => p.phase === null));
+
+  return (
+    <div className="relative w-full h-full bg-slate-900 rounded-lg border border-slate-700 flex">
+      <div className="flex-grow p-2">
+        {mics.length > 0 ? (
+          <ResponsePlot traces={traces} minFrequency={MIN_FREQUENCY} maxFrequency={MAX_FREQUENCY} magnitudeLabel="dB SPL" />
+        ) : (
+          <div className="h-full flex items-center justify-center text-xs text-slate-500">
+            Double-click the plan view to place a microphone
+          </div>
+        )}
+        {phaseHidden && !error && (
+          <div className="absolute bottom-2 right-44 text-[10px] text-slate-500 pointer-events-none">
+            Phase hidden where sources on different channels sum
+          </div>
+        )}
+        {error && (
+          <div className="absolute top-2 left-2 text-[10px] text-red-400 bg-slate-950/80 px-2 py-1 rounded">
+            Response calculation failed: {error}
+          </div>
+        )}
+      </div>
+      <div className="w-40 border-l border-slate-800 p-2 space-y-1 overflow-y-auto">
+        {hasBothRoles && (
+          <button
+            onClick={() => setSplit(!split)}
+            className={`w-full mb-1 px-2 py-0.5 rounded border text-[10px] ${split ? 'border-brand-500 text-brand-500' : 'border-slate-700 text-slate-400 hover:text-slate-300'}`}
+            title="Dashed: subs only, dotted: main PA only"
+          >
+            Subs / Main PA
+          </button>
+        )}
+        {mics.map(m => {
+          const response = responses.find(r => r.micId === m.id);
+          const crossover = response?.crossover;
+          return (
+            <div key={m.id} className="text-xs text-slate-300">
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-0.5 inline-block" style={{ backgroundColor: m.color }} />
+                <span className="truncate">{m.name}</span>
+              </div>
+              {crossover && (
+                <div className="pl-5 text-[10px] font-mono text-slate-500" title="Where subs and main PA are equally loud; 0° sums fully, ±180° cancels">
+                  {Math.round(crossover.frequency)} Hz, Δ {Math.round(crossover.phaseOffset)}°
+                </div>
+              )}
+              {!crossover && response?.sub && response.main && [...response.sub, ...response.main].some(p => p.phase === null) && (
+                <div className="pl-5 text-[10px] text-slate-600" title="Subs or main PA span several signal channels, so there is no single phase to compare">
+                  Δ n/a, mixed channels
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default MicResponsePanel;
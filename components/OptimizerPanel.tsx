@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Speaker, Group, SimulationSettings, OptimizerRegion } from '../types';
+import { OptimizerOptions, OptimizerProposal, OptimizerMetrics, SpeakerChange } from '../utils/optimizer';
+import type { OptimizerJob, OptimizerJobResult } from '../workers/optimizerWorker';
+import { getActiveSpeakers } from '../utils/physics';
+import { Target, Trash2, Plus, X } from 'lucide-react';
+
+interface Props {
+  speakers: Speaker[];
+  groups: Group[];
+  settings: SimulationSettings;
+  regions: OptimizerRegion[];
+  selectedIds: string[];
+  onAddRegion: (kind: OptimizerRegion['kind']) => void;
+  onUpdateRegion: (id: string, updates: Partial<OptimizerRegion>) => void;
+  onRemoveRegion: (id: string) => void;
+  onApply: (changes: SpeakerChange[]) => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+const formatDb = (value: number | null) => value === null ? '—' : value.toFixed(1);
+
+const inputClass = 'w-full bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-xs font-mono';
+
+// Region goals, limits and the proposed gain/delay/polarity changes with before/after metrics
+const OptimizerPanel: React.FC<Props> = ({
+  speakers,
+  groups,
+  settings,
+  regions,
+  selectedIds,
+  onAddRegion,
+  onUpdateRegion,
+  onRemoveRegion,
+  onApply,
+  onError,
+  onClose
+}) => {
+  const [options, setOptions] = useState<OptimizerOptions>({
+    minFrequency: settings.band.minFrequency,
+    maxFrequency: settings.band.maxFrequency,
+    maxDelay: 20,
+    minGain: -12,
+    maxGain: 0,
+    allowPolarity: true
+  });
+  const [proposal, setProposal] = useState<OptimizerProposal | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // The search runs in a worker; results for superseded jobs are dropped
+  const workerRef = useRef<Worker | null>(null);
+  const jobIdRef = useRef(0);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/optimizerWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<OptimizerJobResult>) => {
+      if (e.data.jobId !== jobIdRef.current) return;
+      setBusy(false);
+      if (e.data.kind === 'error') onErrorRef.current(`Optimization failed: ${e.data.message}`);
+      else setProposal(e.data.proposal);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // A proposal only describes the scene it was computed for, so a run in progress is dropped too
+  useEffect(() => {
+    jobIdRef.current++;
+    setProposal(null);
+    setBusy(false);
+  }, [speakers, groups, settings, regions]);
+
+  const active = getActiveSpeakers(speakers, groups);
+  const selectedActive = active.filter(s => selectedIds.includes(s.id));
+  // Without a selection the subs are tuned against a fixed main PA
+  const targets = selectedActive.length > 0 ? selectedActive : active.filter(s => s.role === 'sub');
+  const canRun = regions.length > 0 && targets.length > 0 && options.maxFrequency > options.minFrequency && options.maxGain >= options.minGain;
+
+  const updateOptions = (updates: Partial<OptimizerOptions>) => setOptions({ ...options, ...updates });
+
+  const run = () => {
+    const job: OptimizerJob = {
+      jobId: ++jobIdRef.current,
+      speakers,
+      groups,
+      settings,
+      regions,
+      targetIds: targets.map(s => s.id),
+      options
+    };
+    setBusy(true);
+    workerRef.current?.postMessage(job);
+  };
+
+  const metricRows: { label: string; key: keyof OptimizerMetrics; unit: string }[] = [
+    { label: 'Maximize regions', key: 'maximizeLevel', unit: 'dB SPL' },
+    { label: 'Minimize regions', key: 'minimizeLevel', unit: 'dB SPL' },
+    { label: 'Spread (maximize)', key: 'spread', unit: 'dB' },
+    { label: 'Score', key: 'score', unit: '' }
+  ];
+
+  return (
+    <div className="w-80 min-h-0 flex flex-col bg-gray-900/95 border border-slate-700 rounded-lg shadow-xl text-slate-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-700">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-1">
+          <Target size={12}/> Optimizer
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white"><X size={14}/></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {/* Regions */}
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <h4 className="text-[10px] uppercase font-bold text-slate-500">Regions (m)</h4>
+            <div className="flex gap-1">
+              <button onClick={() => onAddRegion('maximize')} className="text-[10px] px-1.5 py-0.5 rounded border border-green-700 text-green-400 hover:bg-green-900/30 flex items-center gap-0.5"><Plus size={10}/> Maximize</button>
+              <button onClick={() => onAddRegion('minimize')} className="text-[10px] px-1.5 py-0.5 rounded border border-red-700 text-red-400 hover:bg-red-900/30 flex items-center gap-0.5"><Plus size={10}/> Minimize</button>
+            </div>
+          </div>
+          {regions.length === 0 && <p className="text-[10px] text-slate-500">Add an area to make louder (audience) or quieter (stage, backstage).</p>}
+          <div className="space-y-2">
+            {regions.map(r => (
+              <div key={r.id} className={`p-2 rounded border ${r.kind === 'maximize' ? 'border-green-800/70' : 'border-red-800/70'} bg-slate-800/40`}>
+                <div className="flex items-center gap-1 mb-1">
+                  <input
+                    type="text"
+                    value={r.name}
+                    onChange={(e) => onUpdateRegion(r.id, { name: e.target.value })}
+                    className="flex-1 min-w-0 bg-transparent text-xs focus:outline-none"
+                  />
+                  <select
+                    value={r.kind}
+                    onChange={(e) => onUpdateRegion(r.id, { kind: e.target.value as OptimizerRegion['kind'] })}
+                    className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-[10px]"
+                  >
+                    <option value="maximize">Maximize</option>
+                    <option value="minimize">Minimize</option>
+                  </select>
+                  <button onClick={() => onRemoveRegion(r.id)} className="p-1 text-slate-500 hover:text-red-400"><Trash2 size={12}/></button>
+                </div>
+                <div className="grid grid-cols-4 gap-1">
+                  {(['x', 'y', 'width', 'depth'] as const).map(key => (
+                    <label key={key} className="text-[9px] uppercase text-slate-500">
+                      {key === 'width' ? 'W' : key === 'depth' ? 'D' : key.toUpperCase()}
+                      <input
+                        type="number" step="0.5" min={key === 'width' || key === 'depth' ? 0.5 : undefined}
+                        value={r[key]}
+                        onChange={(e) => {
+                          const value = Number(e.target.value);
+                          onUpdateRegion(r.id, { [key]: key === 'width' || key === 'depth' ? Math.max(0.5, value) : value });
+                        }}
+                        className={inputClass}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Band & limits */}
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-[10px] uppercase text-slate-500">From (Hz)
+            <input type="number" min="10" value={options.minFrequency} onChange={(e) => updateOptions({ minFrequency: Math.max(10, Number(e.target.value)) })} className={inputClass}/>
+          </label>
+          <label className="text-[10px] uppercase text-slate-500">To (Hz)
+            <input type="number" min="10" value={options.maxFrequency} onChange={(e) => updateOptions({ maxFrequency: Math.max(10, Number(e.target.value)) })} className={inputClass}/>
+          </label>
+          <label className="text-[10px] uppercase text-slate-500">Gain min (dB)
+            <input type="number" step="1" value={options.minGain} onChange={(e) => updateOptions({ minGain: Number(e.target.value) })} className={inputClass}/>
+          </label>
+          <label className="text-[10px] uppercase text-slate-500">Gain max (dB)
+            <input type="number" step="1" value={options.maxGain} onChange={(e) => updateOptions({ maxGain: Number(e.target.value) })} className={inputClass}/>
+          </label>
+          <label className="text-[10px] uppercase text-slate-500">Max delay (ms)
+            <input type="number" min="0" step="1" value={options.maxDelay} onChange={(e) => updateOptions({ maxDelay: Math.max(0, Number(e.target.value)) })} className={inputClass}/>
+          </label>
+          <label className="flex items-end gap-1 text-[10px] uppercase text-slate-500 pb-1">
+            <input type="checkbox" checked={options.allowPolarity} onChange={(e) => updateOptions({ allowPolarity: e.target.checked })} className="accent-brand-500"/>
+            Allow polarity
+          </label>
+        </div>
+
+        <button
+          onClick={run}
+          disabled={!canRun || busy}
+          className="w-full py-1.5 rounded bg-brand-600 hover:bg-brand-500 disabled:opacity-40 disabled:hover:bg-brand-600 text-white text-xs font-medium"
+        >
+          {busy ? 'Optimizing…' : `Optimize ${selectedActive.length > 0 ? `${targets.length} selected speaker` : `all ${targets.length} sub`}${targets.length === 1 ? '' : 's'}`}
+        </button>
+
+        {/* Proposal */}
+        {proposal && (
+          <div className="space-y-2">
+            <table className="w-full text-[10px] font-mono">
+              <thead className="text-slate-500">
+                <tr><th className="text-left font-normal">Band level</th><th className="text-right font-normal">Before</th><th className="text-right font-normal">After</th></tr>
+              </thead>
+              <tbody>
+                {metricRows.map(m => (
+                  <tr key={m.key}>
+                    <td className="text-slate-400">{m.label}</td>
+                    <td className="text-right">{formatDb(proposal.before[m.key])}</td>
+                    <td className="text-right text-white">{formatDb(proposal.after[m.key])} <span className="text-slate-500">{m.unit}</span></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <table className="w-full text-[10px] font-mono">
+              <thead className="text-slate-500">
+                <tr><th className="text-left font-normal">Speaker</th><th className="text-right font-normal">Gain</th><th className="text-right font-normal">Delay</th><th className="text-right font-normal">Pol.</th></tr>
+              </thead>
+              <tbody>
+                {proposal.changes.map(c => {
+                  const s = speakers.find(sp => sp.id === c.id);
+                  if (!s) return null;
+                  const changed = (a: number, b: number) => Math.abs(a - b) > 1e-6 ? 'text-brand-500' : '';
+                  return (
+                    <tr key={c.id}>
+                      <td className="truncate max-w-[6rem]">{s.name}</td>
+                      <td className={`text-right ${changed(s.gain, c.gain)}`}>{c.gain.toFixed(1)}</td>
+                      <td className={`text-right ${changed(s.delay, c.delay)}`}>{c.delay.toFixed(2)}</td>
+                      <td className={`text-right ${s.polarity !== c.polarity ? 'text-brand-500' : ''}`}>{c.polarity ? 'inv' : 'norm'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="flex gap-2">
+              <button onClick={() => onApply(proposal.changes)} className="flex-1 py-1.5 rounded bg-green-700 hover:bg-green-600 text-white text-xs">Apply</button>
+              <button onClick={() => setProposal(null)} className="flex-1 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-600 text-xs">Discard</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OptimizerPanel;
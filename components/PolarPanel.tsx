@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { Speaker, Group, SimulationSettings } from '../types';
+import { computePolarResponse, getArrayAim } from '../utils/polar';
+
+interface Props {
+  speakers: Speaker[];
+  groups: Group[];
+  settings: SimulationSettings;
+}
+
+const CURVE_COLORS = ['#38bdf8', '#a3e635', '#facc15', '#fb923c', '#f472b6', '#c084fc'];
+
+// Plot geometry (SVG user units)
+const SIZE = 200;
+const CENTER = SIZE / 2;
+const OUTER_RADIUS = 85;
+const RANGE_DB = 30;
+const RINGS_DB = [0, -6, -12, -18, -24];
+
+const levelToRadius = (db: number) => Math.max(0, (db + RANGE_DB) / RANGE_DB) * OUTER_RADIUS;
+
+// Polar plot of the array response on a circle around its centroid, 0° (+y) at the top
+const PolarPanel: React.FC<Props> = ({ speakers, groups, settings }) => {
+  const [radius, setRadius] = useState(10);
+  const [frequencyText, setFrequencyText] = useState('40, 63, 80, 100');
+
+  const frequencies = useMemo(
+    // Each frequency once, so it can key its curve and table row
+    () => Array.from(new Set(frequencyText.split(',').map(f => Number(f.trim())).filter(f => Number.isFinite(f) && f > 0))),
+    [frequencyText]
+  );
+
+  const curves = useMemo(
+    () => computePolarResponse(speakers, groups, settings, radius, frequencies),
+    [speakers, groups, settings, radius, frequencies]
+  );
+
+  const aim = useMemo(() => getArrayAim(speakers, groups), [speakers, groups]);
+
+  const formatFrontToBack = (value: number | null) =>
+    value === null ? '—' : Number.isFinite(value) ? `${value.toFixed(1)} dB` : '∞';
+
+  const curvePath = (angles: number[], levels: number[]) =>
+    angles.map((deg, i) => {
+      const a = (deg * Math.PI) / 180;
+      const r = levelToRadius(levels[i]);
+      return `${i === 0 ? 'M' : 'L'}${(CENTER + r * Math.sin(a)).toFixed(1)},${(CENTER - r * Math.cos(a)).toFixed(1)}`;
+    }).join(' ') + ' Z';
+
+  return (
+    <div className="relative w-full h-full bg-slate-900 rounded-lg border border-slate-700 flex text-xs text-slate-300">
+      <div className="h-full aspect-square p-2">
+        <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-full">
+          {RINGS_DB.map(db => (
+            <g key={db}>
+              <circle cx={CENTER} cy={CENTER} r={levelToRadius(db)} fill="none" stroke="#334155" strokeWidth={0.5} />
+              <text x={CENTER + 2} y={CENTER - levelToRadius(db) + 7} fill="#64748b" fontSize={6}>{db}</text>
+            </g>
+          ))}
+          {[0, 45, 90, 135].map(deg => {
+            const a = (deg * Math.PI) / 180;
+            const dx = OUTER_RADIUS * Math.sin(a);
+            const dy = OUTER_RADIUS * Math.cos(a);
+            return <line key={deg} x1={CENTER - dx} y1={CENTER + dy} x2={CENTER + dx} y2={CENTER - dy} stroke="#334155" strokeWidth={0.5} />;
+          })}
+          <text x={CENTER} y={9} fill="#94a3b8" fontSize={7} textAnchor="middle">0°</text>
+          <text x={CENTER} y={SIZE - 3} fill="#94a3b8" fontSize={7} textAnchor="middle">180°</text>
+          {/* Axis the front-to-back ratio and beamwidth are measured along */}
+          <line
+            x1={CENTER} y1={CENTER}
+            x2={CENTER + OUTER_RADIUS * Math.sin((aim * Math.PI) / 180)} y2={CENTER - OUTER_RADIUS * Math.cos((aim * Math.PI) / 180)}
+            stroke="#94a3b8" strokeWidth={0.6} strokeDasharray="2 2"
+          />
+          {curves.map((c, i) => (
+            <path key={c.frequency} d={curvePath(c.angles, c.levels)} fill="none" stroke={CURVE_COLORS[i % CURVE_COLORS.length]} strokeWidth={1.2} />
+          ))}
+        </svg>
+      </div>
+
+      <div className="flex-grow p-3 space-y-3 overflow-y-auto">
+        <div className="flex gap-3">
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] uppercase text-slate-500">Radius (m)</span>
+            <input 
+              type="number" min="1" step="1"
+              value={radius}
+              onChange={(e) => setRadius(Math.max(1, Number(e.target.value)))}
+              className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-1 font-mono"
+            />
+          </label>
+          <label className="flex flex-col gap-1 flex-grow">
+            <span className="text-[10px] uppercase text-slate-500">Frequencies (Hz)</span>
+            <input 
+              type="text"
+              value={frequencyText}
+              onChange={(e) => setFrequencyText(e.target.value)}
+              className="bg-slate-800 border border-slate-600 rounded px-2 py-1 font-mono"
+            />
+          </label>
+        </div>
+
+        <table className="w-full text-left">
+          <thead className="text-[10px] uppercase text-slate-500">
+            <tr><th className="font-normal">Freq</th><th className="font-normal">Front/Back</th><th className="font-normal">-6 dB Width</th></tr>
+          </thead>
+          <tbody className="font-mono">
+            {curves.map((c, i) => (
+              <tr key={c.frequency}>
+                <td style={{ color: CURVE_COLORS[i % CURVE_COLORS.length] }}>{c.frequency} Hz</td>
+                <td>{formatFrontToBack(c.frontToBack)}</td>
+                <td>{c.beamwidth === null ? '—' : `${c.beamwidth.toFixed(0)}°`}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-[10px] text-slate-500">
+          Front/back and width are measured along the mean speaker aim ({Math.round(aim)}°, dashed). Free field: boundary reflections are not included.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PolarPanel;
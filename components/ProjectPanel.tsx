@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { ProjectSummary } from '../types';
+import { FolderOpen, Copy, Trash2, Pencil, Plus, X, Check } from 'lucide-react';
+
+interface Props {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  autosaveStatus: string;
+  onCreateProject: (name: string) => void;
+  onOpenProject: (id: string) => void;
+  onDuplicateProject: (id: string) => void;
+  onRenameProject: (id: string, name: string) => void;
+  onDeleteProject: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+// Browser-local project library. The open project is autosaved on every change.
+const ProjectPanel: React.FC<Props> = ({
+  projects,
+  currentProjectId,
+  autosaveStatus,
+  onCreateProject,
+  onOpenProject,
+  onDuplicateProject,
+  onRenameProject,
+  onDeleteProject,
+  onClose
+}) => {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const create = () => {
+    onCreateProject(newName.trim() || `Project ${projects.length + 1}`);
+    setNewName('');
+  };
+
+  const commitRename = () => {
+    if (editingId && editName.trim()) onRenameProject(editingId, editName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-72 max-h-full flex flex-col bg-gray-900/95 border border-slate-700 rounded-lg shadow-xl text-slate-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-700">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-1">
+          <FolderOpen size={12}/> Projects
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white"><X size={14}/></button>
+      </div>
+
+      <div className="p-3 border-b border-slate-700 flex gap-2">
+        <input
+          type="text"
+          placeholder="New project name"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && create()}
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs"
+        />
+        <button
+          onClick={create}
+          title="Save the current scene as a new project"
+          className="flex items-center gap-1 bg-brand-600 hover:bg-brand-500 text-white text-xs px-2 py-1 rounded"
+        >
+          <Plus size={12}/> Save As
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {projects.length === 0 && (
+          <p className="text-xs text-slate-500 text-center py-4">No saved projects yet.</p>
+        )}
+        {projects.map(p => {
+          const isCurrent = p.id === currentProjectId;
+          return (
+            <div key={p.id} className={`p-2 rounded border ${isCurrent ? 'border-brand-500 bg-slate-800' : 'border-slate-700/50 bg-slate-800/40'}`}>
+              {editingId === p.id ? (
+                <div className="flex gap-1">
+                  <input
+                    autoFocus
+                    type="text"
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-xs"
+                  />
+                  <button onClick={commitRename} className="p-1 text-slate-400 hover:text-white"><Check size={12}/></button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onOpenProject(p.id)}
+                    className="flex-1 min-w-0 text-left"
+                    title="Open"
+                  >
+                    <span className={`block text-xs truncate ${isCurrent ? 'text-white font-medium' : ''}`}>{p.name}</span>
+                    <span className="block text-[10px] text-slate-500">{formatTime(p.updatedAt)}</span>
+                  </button>
+                  <button onClick={() => { setEditingId(p.id); setEditName(p.name); }} title="Rename" className="p-1 text-slate-500 hover:text-white"><Pencil size={12}/></button>
+                  <button onClick={() => onDuplicateProject(p.id)} title="Duplicate" className="p-1 text-slate-500 hover:text-white"><Copy size={12}/></button>
+                  <button
+                    onClick={() => window.confirm(`Delete "${p.name}"?`) && onDeleteProject(p.id)}
+                    title="Delete"
+                    className="p-1 text-slate-500 hover:text-red-400"
+                  >
+                    <Trash2 size={12}/>
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="px-3 py-1.5 border-t border-slate-700 text-[10px] text-slate-500">
+        {autosaveStatus}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectPanel;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Speaker, Group, Microphone, SimulationSettings, ViewMode } from '../types';
+import { ReportInput, describeReportView, renderReportCanvas, renderReportHtml, renderReportSvg } from '../utils/report';
+import { downloadBlob } from '../utils/download';
+import { FileText, ImageIcon, FileCode, X } from 'lucide-react';
+
+interface Props {
+  speakers: Speaker[];
+  groups: Group[];
+  mics: Microphone[];
+  settings: SimulationSettings;
+  viewMode: ViewMode;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+type ReportFormat = 'png' | 'svg' | 'html';
+
+const fileSlug = (title: string) => title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+
+// Export of the plan view and design tables for clients
+const ReportPanel: React.FC<Props> = ({ speakers, groups, mics, settings, viewMode, onError, onClose }) => {
+  const [title, setTitle] = useState('Subwoofer Design');
+  const [busy, setBusy] = useState(false);
+
+  const exportReport = (format: ReportFormat) => {
+    const input: ReportInput = { title, speakers, groups, mics, settings, viewMode };
+    const name = fileSlug(title);
+    setBusy(true);
+    const fail = (e: unknown) => onError(`Could not export the report: ${e instanceof Error ? e.message : String(e)}`);
+    // Let the busy state paint before the synchronous field computation
+    window.setTimeout(() => {
+      try {
+        if (format === 'png') {
+          // toBlob reports failure (e.g. a canvas too large to encode) as a null blob
+          renderReportCanvas(input).toBlob(blob => {
+            if (blob) downloadBlob(blob, `${name}.png`);
+            else fail(new Error('the browser could not encode the image'));
+            setBusy(false);
+          }, 'image/png');
+          return;
+        }
+        if (format === 'svg') {
+          downloadBlob(new Blob([renderReportSvg(input)], { type: 'image/svg+xml' }), `${name}.svg`);
+        } else {
+          downloadBlob(new Blob([renderReportHtml(input)], { type: 'text/html' }), `${name}.html`);
+        }
+      } catch (e) {
+        fail(e);
+      }
+      setBusy(false);
+    }, 0);
+  };
+
+  const formats: { format: ReportFormat; label: string; icon: React.ReactNode }[] = [
+    { format: 'png', label: 'PNG', icon: <ImageIcon size={12}/> },
+    { format: 'svg', label: 'SVG', icon: <FileCode size={12}/> },
+    { format: 'html', label: 'Printable', icon: <FileText size={12}/> }
+  ];
+
+  return (
+    <div className="w-72 bg-gray-900/95 border border-slate-700 rounded-lg shadow-xl text-slate-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-700">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-1">
+          <FileText size={12}/> Report
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white"><X size={14}/></button>
+      </div>
+      <div className="p-3 space-y-3">
+        <div className="flex flex-col gap-1">
+          <label className="text-[10px] uppercase text-slate-500">Title</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs"
+          />
+        </div>
+        <p className="text-[10px] text-slate-500">
+          Plan view of {describeReportView({ title, speakers, groups, mics, settings, viewMode })}. The printable page adds the speaker table and settings.
+        </p>
+        <div className="flex gap-2">
+          {formats.map(f => (
+            <button
+              key={f.format}
+              onClick={() => exportReport(f.format)}
+              disabled={busy}
+              className="flex-1 flex items-center justify-center gap-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-xs py-1.5 rounded border border-slate-600"
+            >
+              {f.icon} {f.label}
+            </button>
+          ))}
+        </div>
+        {busy && <p className="text-[10px] text-brand-500">Rendering…</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ReportPanel;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { ResponsePoint } from '../utils/response';
+
+export interface ResponseTrace {
+  id: string;
+  name: string;
+  color: string;
+  dash?: string; // SVG stroke-dasharray, solid if omitted
+  points: ResponsePoint[];
+}
+
+interface Props {
+  traces: ResponseTrace[];
+  minFrequency: number;
+  maxFrequency: number;
+  magnitudeRange?: number; // dB shown below the highest trace peak
+  magnitudeLabel?: string;
+}
+
+// Chart geometry (SVG user units)
+const WIDTH = 600;
+const PLOT_LEFT = 40;
+const PLOT_RIGHT = WIDTH - 10;
+const MAG_TOP = 10;
+const MAG_BOTTOM = 110;
+const PHASE_TOP = 130;
+const PHASE_BOTTOM = 190;
+const HEIGHT = 210;
+
+const FREQUENCY_TICKS = [20, 30, 40, 50, 60, 80, 100, 150, 200, 300, 500, 1000, 2000];
+
+// Two-pane magnitude / phase plot on a log frequency axis. Several traces are overlaid.
+const ResponsePlot: React.FC<Props> = ({
+  traces,
+  minFrequency,
+  maxFrequency,
+  magnitudeRange = 36,
+  magnitudeLabel = 'dB'
+}) => {
+  const logMin = Math.log10(minFrequency);
+  const logMax = Math.log10(maxFrequency);
+  const freqToX = (f: number) => PLOT_LEFT + ((Math.log10(f) - logMin) / (logMax - logMin)) * (PLOT_RIGHT - PLOT_LEFT);
+
+  // Top of the magnitude axis: highest finite value, rounded up to 6 dB
+  const peaks = traces.flatMap(t => t.points.map(p => p.magnitude)).filter(Number.isFinite);
+  const magMax = peaks.length > 0 ? Math.ceil(Math.max(...peaks) / 6) * 6 : 0;
+  const magMin = magMax - magnitudeRange;
+  const magToY = (db: number) => {
+    const clamped = Math.max(magMin, Math.min(magMax, db));
+    return MAG_TOP + ((magMax - clamped) / magnitudeRange) * (MAG_BOTTOM - MAG_TOP);
+  };
+  const phaseToY = (deg: number) => PHASE_TOP + ((180 - deg) / 360) * (PHASE_BOTTOM - PHASE_TOP);
+
+  const magnitudePath = (points: ResponsePoint[]) =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'}${freqToX(p.frequency).toFixed(1)},${magToY(p.magnitude).toFixed(1)}`).join(' ');
+
+  // Break the phase line where it wraps around +/-180 degrees
+  // Points without a phase break the line
+  const phasePath = (points: ResponsePoint[]) =>
+    points.map((p, i) => {
+      if (p.phase === null) return '';
+      const previous = i > 0 ? points[i - 1].phase : null;
+      const wraps = previous === null || Math.abs(p.phase - previous) > 180;
+      return `${wraps ? 'M' : 'L'}${freqToX(p.frequency).toFixed(1)},${phaseToY(p.phase).toFixed(1)}`;
+    }).filter(Boolean).join(' ');
+
+  const ticks = FREQUENCY_TICKS.filter(f => f >= minFrequency && f <= maxFrequency);
+  const magTicks = Array.from({ length: Math.floor(magnitudeRange / 6) + 1 }, (_, i) => magMax - i * 6);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-full">
+      {/* Frequency grid */}
+      {ticks.map(f => (
+        <g key={f}>
+          <line x1={freqToX(f)} x2={freqToX(f)} y1={MAG_TOP} y2={MAG_BOTTOM} stroke="#334155" strokeWidth={0.5} />
+          <line x1={freqToX(f)} x2={freqToX(f)} y1={PHASE_TOP} y2={PHASE_BOTTOM} stroke="#334155" strokeWidth={0.5} />
+          <text x={freqToX(f)} y={HEIGHT - 6} fill="#64748b" fontSize={8} textAnchor="middle">{f >= 1000 ? `${f / 1000}k` : f}</text>
+        </g>
+      ))}
+
+      {/* Magnitude grid */}
+      {magTicks.map(db => (
+        <g key={db}>
+          <line x1={PLOT_LEFT} x2={PLOT_RIGHT} y1={magToY(db)} y2={magToY(db)} stroke="#334155" strokeWidth={0.5} />
+          <text x={PLOT_LEFT - 4} y={magToY(db) + 3} fill="#64748b" fontSize={8} textAnchor="end">{db}</text>
+        </g>
+      ))}
+      <text x={4} y={MAG_TOP + 6} fill="#64748b" fontSize={8}>{magnitudeLabel}</text>
+
+      {/* Phase grid */}
+      {[180, 0, -180].map(deg => (
+        <g key={deg}>
+          <line x1={PLOT_LEFT} x2={PLOT_RIGHT} y1={phaseToY(deg)} y2={phaseToY(deg)} stroke="#334155" strokeWidth={0.5} />
+          <text x={PLOT_LEFT - 4} y={phaseToY(deg) + 3} fill="#64748b" fontSize={8} textAnchor="end">{deg}°</text>
+        </g>
+      ))}
+
+      {traces.map(t => (
+        <g key={t.id} fill="none" stroke={t.color} strokeWidth={1.5} strokeDasharray={t.dash}>
+          <path d={magnitudePath(t.points)} />
+          <path d={phasePath(t.points)} strokeWidth={1} />
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default ResponsePlot;
@@ -1,15 +1,29 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Speaker, SimulationSettings, Group } from '../types';
-import { calculateSpeedOfSound, dbToLinear, getHeatmapColor, getPhaseColor } from '../utils/physics';
+import { Speaker, SimulationSettings, Group, ViewMode, SoundField, BandField, FieldPlane, Position, Position3D, Microphone, OptimizerRegion } from '../types';
+import { calculateSpeedOfSound, getEffectiveDrive } from '../utils/physics';
+import { renderBandImage, renderFieldImage } from '../utils/heatmap';
+import { exceedsMaxSpl } from '../utils/speakerModels';
+import type { FieldJob, FieldJobResult } from '../workers/fieldWorker';
 
 interface Props {
   speakers: Speaker[];
   groups: Group[];
   settings: SimulationSettings;
-  viewMode: 'SPL' | 'Phase';
+  viewMode: ViewMode;
+  projection: FieldPlane; // 'plan' (top view) or 'section' (side elevation through the array)
   selectedSpeakerIds: string[];
-  onUpdateSpeakerPosition: (id: string, x: number, y: number) => void;
+  onUpdateSpeakerPosition: (id: string, x: number, y: number, z: number) => void;
+  onRotateSpeaker: (id: string, rotation: number) => void;
+  onDragStart: () => void; // a drag gesture begins; its edits form one undo step
+  onDragEnd: () => void;
   onSelectSpeakers: (ids: string[]) => void;
+  mics: Microphone[];
+  regions: OptimizerRegion[]; // optimizer goals, drawn on the plan
+  virtualArc: Position[]; // line a steered/arced array appears to radiate from, drawn on the plan
+  referencePoint: Position3D | null; // time-alignment reference, drawn on the plan
+  onPickPoint?: (position: Position3D) => void; // while set, a click on the plan picks a point instead of selecting
+  onUpdateMic: (id: string, updates: Partial<Microphone>) => void;
+  onAddMic: (position: Position3D) => void;
 }
 
 const SimulationCanvas: React.FC<Props> = ({
@@ -17,9 +31,20 @@ const SimulationCanvas: React.FC<Props> = ({
   groups,
   settings,
   viewMode,
+  projection,
   selectedSpeakerIds,
   onUpdateSpeakerPosition,
+  onRotateSpeaker,
+  onDragStart,
+  onDragEnd,
   onSelectSpeakers,
+  mics,
+  regions,
+  virtualArc,
+  referencePoint,
+  onPickPoint,
+  onUpdateMic,
+  onAddMic,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayRef = useRef<HTMLCanvasElement>(null);
@@ -27,11 +52,16 @@ const SimulationCanvas: React.FC<Props> = ({
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState<{ x: number, y: number } | null>(null);
   // Store initial positions of all selected speakers when drag starts
-  const [initialPositions, setInitialPositions] = useState<Record<string, {x: number, y: number}>>({});
+  const [initialPositions, setInitialPositions] = useState<Record<string, Position3D>>({});
+  // Mic being dragged (mics move one at a time and never join the speaker selection)
+  const [draggedMic, setDraggedMic] = useState<{ id: string, initial: Position3D } | null>(null);
+  // Rotation drag: the selection turns by the same angle the pivot speaker is aimed through
+  const [rotateDrag, setRotateDrag] = useState<{ pivotId: string, initialRotations: Record<string, number> } | null>(null);
+
+  const [dimensions, setDimensions] = useState({ w: 600, h: 600 });
 
   // Physics constants derived from settings
   const c = calculateSpeedOfSound(settings.temperature);
-  const k = (2 * Math.PI * settings.frequency) / c;
   
   // Transform helpers
   const metersToPixels = (meters: number, canvasSize: number, venueSize: number) => {
@@ -42,132 +72,110 @@ const SimulationCanvas: React.FC<Props> = ({
     return ((pixels - (canvasSize / 2)) / canvasSize) * venueSize;
   };
 
-  // Helper to determine if a speaker is effectively muted
-  const isSpeakerActive = (s: Speaker) => {
-    const group = groups.find(g => g.id === s.groupId);
-    // Speaker is active if NOT muted AND (No group OR Group not muted)
-    // Also handle SOLO logic: 
-    // If ANY speaker or ANY group is soloed, only those soloed are active.
-    return !s.mute && (!group || !group.mute);
+  // The section view looks along x: y runs left to right, z runs up from the floor at the bottom edge
+  const isSection = projection === 'section';
+  const heightToPixels = (z: number, canvasHeight: number) => canvasHeight - (z / settings.venueHeight) * canvasHeight;
+
+  const toCanvas = (p: Position3D, width: number, height: number) => isSection
+    ? { px: metersToPixels(p.y, width, settings.venueDepth), py: heightToPixels(p.z, height) }
+    : { px: metersToPixels(p.x, width, settings.venueWidth), py: metersToPixels(p.y, height, settings.venueDepth) };
+
+  // Apply a drag of (dpx, dpy) canvas pixels to a venue position
+  const dragPosition = (initial: Position3D, dpx: number, dpy: number, width: number, height: number): Position3D => isSection
+    ? { x: initial.x, y: initial.y + (dpx / width) * settings.venueDepth, z: Math.max(0, initial.z - (dpy / height) * settings.venueHeight) }
+    : { x: initial.x + (dpx / width) * settings.venueWidth, y: initial.y + (dpy / height) * settings.venueDepth, z: initial.z };
+
+  // Canvas-space unit vector of a speaker's aim (only the y component is visible in section)
+  const aimOnCanvas = (s: Speaker, width: number, height: number) => {
+    const a = (s.rotation * Math.PI) / 180;
+    const dx = isSection ? Math.cos(a) * width / settings.venueDepth : Math.sin(a) * width / settings.venueWidth;
+    const dy = isSection ? 0 : Math.cos(a) * height / settings.venueDepth;
+    const len = Math.sqrt(dx * dx + dy * dy);
+    return len > 1e-6 ? { dx: dx / len, dy: dy / len, visible: isSection ? Math.abs(Math.cos(a)) : 1 } : null;
+  };
+
+  // Position of the rotate handle drawn at the arrow tip of selected speakers (plan only)
+  const ROTATE_HANDLE_DISTANCE = 26;
+  const rotateHandle = (s: Speaker, width: number, height: number) => {
+    const aim = aimOnCanvas(s, width, height);
+    if (isSection || !aim) return null;
+    const { px, py } = toCanvas(s, width, height);
+    return { hx: px + aim.dx * ROTATE_HANDLE_DISTANCE, hy: py + aim.dy * ROTATE_HANDLE_DISTANCE };
   };
 
+  const normalizeAngle = (deg: number) => {
+    const a = ((deg + 180) % 360 + 360) % 360 - 180;
+    return a === -180 ? 180 : a;
+  };
+
+  // The vertical cut goes through the centre of the array
+  const sectionX = speakers.length > 0 ? speakers.reduce((sum, s) => sum + s.x, 0) / speakers.length : 0;
+
+  // Field computation runs in a worker; results for superseded jobs are dropped
+  const workerRef = useRef<Worker | null>(null);
+  const jobIdRef = useRef(0);
+  const [field, setField] = useState<SoundField | null>(null);
+  const [bandField, setBandField] = useState<BandField | null>(null);
+  const [isRefining, setIsRefining] = useState(false);
+  const [fieldError, setFieldError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/fieldWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<FieldJobResult>) => {
+      if (e.data.jobId !== jobIdRef.current) return;
+      if (e.data.kind === 'error') {
+        setFieldError(e.data.message);
+      } else if (e.data.kind === 'band') {
+        setBandField(e.data.field);
+        setFieldError(null);
+      } else {
+        setField(e.data.field);
+        setFieldError(null);
+      }
+      setIsRefining(!e.data.final);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  const isBand = viewMode === 'Band';
+  const isCrossover = viewMode === 'Crossover';
+
+  useEffect(() => {
+    const job: FieldJob = { jobId: ++jobIdRef.current, speakers, groups, settings, plane: projection, sectionX, band: isBand, splitMain: isCrossover };
+    workerRef.current?.postMessage(job);
+    setIsRefining(true);
+  }, [speakers, groups, settings, projection, sectionX, isBand, isCrossover]);
+
   // Draw Heatmap
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d', { alpha: false });
     if (!ctx) return;
-
-    const width = canvas.width;
-    const height = canvas.height;
-    
-    const imageData = ctx.createImageData(width, height);
-    const data = imageData.data;
-
-    // Resolve Solo Logic
-    const anySpeakerSolo = speakers.some(s => s.solo);
-    const anyGroupSolo = groups.some(g => g.solo);
-    const isSoloActive = anySpeakerSolo || anyGroupSolo;
-
-    const activeSpeakers = speakers
-      .filter(s => {
-         const group = groups.find(g => g.id === s.groupId);
-         const effectivelyMuted = s.mute || (group?.mute ?? false);
-         
-         if (effectivelyMuted) return false;
-
-         if (isSoloActive) {
-            // If solo mode is active, only include if this speaker OR its group is soloed
-            return s.solo || (group?.solo ?? false);
-         }
-         return true;
-      })
-      .map(s => ({
-        ...s,
-        linGain: dbToLinear(s.gain),
-        phaseShift: -(2 * Math.PI * settings.frequency * (s.delay / 1000)) + (s.polarity ? Math.PI : 0)
-      }));
-
-    if (activeSpeakers.length === 0) {
+    const image = isBand
+      ? bandField && renderBandImage(bandField, settings)
+      : field && renderFieldImage(field, viewMode, settings);
+    if (!image) {
       ctx.fillStyle = '#0f172a';
-      ctx.fillRect(0, 0, width, height);
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
       return;
     }
 
-    let maxPressure = 0;
-    
-    // Arrays to store result for second pass (normalization) if needed
-    // Float32Array initialized to 0
-    const reMap = new Float32Array(width * height);
-    const imMap = new Float32Array(width * height);
-    const magMap = new Float32Array(width * height);
-
-    for (let py = 0; py < height; py++) {
-      const yMeters = pixelsToMeters(py, height, settings.venueDepth);
-      for (let px = 0; px < width; px++) {
-        const xMeters = pixelsToMeters(px, width, settings.venueWidth);
-
-        let reTotal = 0;
-        let imTotal = 0;
-
-        for (const s of activeSpeakers) {
-          const dx = xMeters - s.x;
-          const dy = yMeters - s.y;
-          const r = Math.sqrt(dx * dx + dy * dy);
-          const dist = Math.max(r, 0.1); 
-          const mag = s.linGain / dist;
-          const phase = -k * r + s.phaseShift;
-
-          reTotal += mag * Math.cos(phase);
-          imTotal += mag * Math.sin(phase);
-        }
-        
-        const idx = py * width + px;
-        const pressure = Math.sqrt(reTotal * reTotal + imTotal * imTotal);
-        
-        reMap[idx] = reTotal;
-        imMap[idx] = imTotal;
-        magMap[idx] = pressure;
+    // The field is computed at settings.resolution; scale it up to the display canvas
+    const buffer = document.createElement('canvas');
+    buffer.width = image.width;
+    buffer.height = image.height;
+    buffer.getContext('2d')!.putImageData(image, 0, 0);
 
-        if (pressure > maxPressure) maxPressure = pressure;
-      }
-    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(buffer, 0, 0, canvas.width, canvas.height);
 
-    const minPressure = maxPressure * dbToLinear(-settings.dynamicRange);
-
-    for (let i = 0; i < magMap.length; i++) {
-      const p = magMap[i];
-      let r=0, g=0, b=0;
-
-      if (viewMode === 'SPL') {
-        let intensity = 0;
-        if (p > 0) {
-          const dbRelative = 20 * Math.log10(p / maxPressure);
-          intensity = (dbRelative + settings.dynamicRange) / settings.dynamicRange;
-        }
-        [r, g, b] = getHeatmapColor(intensity);
-      } else {
-        // Phase Mode
-        // Only show phase if magnitude is significant enough
-        if (p > minPressure) {
-            const phase = Math.atan2(imMap[i], reMap[i]); // -PI to PI
-            [r, g, b] = getPhaseColor(phase);
-        } else {
-            // Too quiet, phase is chaotic/irrelevant
-            r=15; g=23; b=42; // Background color #0f172a
-        }
-      }
-      
-      const idx = i * 4;
-      data[idx] = r;
-      data[idx + 1] = g;
-      data[idx + 2] = b;
-      data[idx + 3] = 255;
-    }
-
-    ctx.putImageData(imageData, 0, 0);
-
-  }, [speakers, groups, settings, k, viewMode]);
+  }, [field, bandField, viewMode, settings.dynamicRange, settings.levelScale, settings.band.statistic, dimensions]);
 
   // Draw Overlay
   useEffect(() => {
@@ -186,35 +194,78 @@ const SimulationCanvas: React.FC<Props> = ({
     ctx.lineWidth = 1;
     
     const gridSpacingMeters = Math.max(1, Math.round(settings.venueWidth / 10));
+    const spanU = isSection ? settings.venueDepth : settings.venueWidth;
     
-    for (let x = -settings.venueWidth/2; x <= settings.venueWidth/2; x += gridSpacingMeters) {
-        const px = metersToPixels(x, width, settings.venueWidth);
+    for (let u = -spanU/2; u <= spanU/2; u += gridSpacingMeters) {
+        const px = metersToPixels(u, width, spanU);
         ctx.beginPath(); ctx.moveTo(px, 0); ctx.lineTo(px, height); ctx.stroke();
-        if (Math.abs(x) < settings.venueWidth/2) {
+        if (Math.abs(u) < spanU/2) {
              ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
              ctx.font = '10px sans-serif';
-             ctx.fillText(`${x}m`, px + 2, height - 5);
+             ctx.fillText(`${u}m`, px + 2, height - 5);
         }
     }
     
-    for (let y = -settings.venueDepth/2; y <= settings.venueDepth/2; y += gridSpacingMeters) {
-        const py = metersToPixels(y, height, settings.venueDepth);
-        ctx.beginPath(); ctx.moveTo(0, py); ctx.lineTo(width, py); ctx.stroke();
-         if (Math.abs(y) < settings.venueDepth/2) {
-             ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-             ctx.font = '10px sans-serif';
-             ctx.fillText(`${y}m`, 5, py - 2);
+    if (isSection) {
+        for (let z = 0; z <= settings.venueHeight; z += gridSpacingMeters) {
+            const py = heightToPixels(z, height);
+            ctx.beginPath(); ctx.moveTo(0, py); ctx.lineTo(width, py); ctx.stroke();
+            if (z > 0 && z < settings.venueHeight) {
+                ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+                ctx.font = '10px sans-serif';
+                ctx.fillText(`${z}m`, 5, py - 2);
+            }
+        }
+
+        // Listening plane used by the plan view
+        const ly = heightToPixels(settings.listenerHeight, height);
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+        ctx.setLineDash([6, 4]);
+        ctx.beginPath(); ctx.moveTo(0, ly); ctx.lineTo(width, ly); ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+        ctx.textAlign = 'right';
+        ctx.fillText(`Listening plane ${settings.listenerHeight}m`, width - 5, ly - 3);
+        ctx.textAlign = 'left';
+    } else {
+        for (let y = -settings.venueDepth/2; y <= settings.venueDepth/2; y += gridSpacingMeters) {
+            const py = metersToPixels(y, height, settings.venueDepth);
+            ctx.beginPath(); ctx.moveTo(0, py); ctx.lineTo(width, py); ctx.stroke();
+             if (Math.abs(y) < settings.venueDepth/2) {
+                 ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+                 ctx.font = '10px sans-serif';
+                 ctx.fillText(`${y}m`, 5, py - 2);
+            }
         }
     }
 
+    // Reflecting boundaries (the venue edges)
+    const { left, right, back, front, floor } = settings.boundaries;
+    ctx.strokeStyle = 'rgba(226, 232, 240, 0.8)';
+    ctx.lineWidth = 4;
+    (isSection ? [
+      { b: back, x1: 0, y1: 0, x2: 0, y2: height },
+      { b: front, x1: width, y1: 0, x2: width, y2: height },
+      { b: floor, x1: 0, y1: height, x2: width, y2: height },
+    ] : [
+      { b: left, x1: 0, y1: 0, x2: 0, y2: height },
+      { b: right, x1: width, y1: 0, x2: width, y2: height },
+      { b: back, x1: 0, y1: 0, x2: width, y2: 0 },
+      { b: front, x1: 0, y1: height, x2: width, y2: height },
+    ]).forEach(({ b, x1, y1, x2, y2 }) => {
+      if (!b.enabled) return;
+      ctx.beginPath(); ctx.moveTo(x1, y1); ctx.lineTo(x2, y2); ctx.stroke();
+    });
+
     // Phase Wavefronts for Selected Speakers
-    if (viewMode === 'Phase' && selectedSpeakerIds.length > 0) {
+    if (viewMode === 'Phase' && !isSection && selectedSpeakerIds.length > 0) {
       selectedSpeakerIds.forEach(id => {
         const s = speakers.find(sp => sp.id === id);
         if (!s) return;
         
         // Calculate properties
-        const phaseShift = -(2 * Math.PI * settings.frequency * (s.delay / 1000)) + (s.polarity ? Math.PI : 0);
+        const drive = getEffectiveDrive(s, groups);
+        const phaseShift = -(2 * Math.PI * settings.frequency * (drive.delay / 1000)) + (drive.polarity ? Math.PI : 0);
         const lambda = c / settings.frequency; // wavelength in meters
         
         // base_r represents the theoretical distance where phase would be 0 (mod 2PI)
@@ -230,6 +281,10 @@ const SimulationCanvas: React.FC<Props> = ({
         // Scale factor (pixels per meter)
         const scale = width / settings.venueWidth;
 
+        // Spherical wavefronts cut the listening plane in circles of radius sqrt(r^2 - dz^2)
+        const dz = settings.listenerHeight - s.z;
+        const planeRadius = (r: number) => Math.sqrt(r * r - dz * dz);
+
         ctx.lineWidth = 1;
         
         // Draw Peaks (0 deg) - Solid White
@@ -238,8 +293,9 @@ const SimulationCanvas: React.FC<Props> = ({
         for (let m = start_m; ; m++) {
             const r = base_r + m * lambda;
             if (r > maxDistMeters) break;
+            if (r < Math.abs(dz)) continue;
             
-            const radiusPx = r * scale;
+            const radiusPx = planeRadius(r) * scale;
             ctx.beginPath();
             ctx.arc(sx, sy, radiusPx, 0, 2 * Math.PI);
             ctx.stroke();
@@ -254,9 +310,9 @@ const SimulationCanvas: React.FC<Props> = ({
         for (let m = start_m_trough; ; m++) {
               const r = base_r_trough + m * lambda;
               if (r > maxDistMeters) break;
-              if (r < 0) continue;
+              if (r < Math.abs(dz)) continue;
 
-              const radiusPx = r * scale;
+              const radiusPx = planeRadius(r) * scale;
               ctx.beginPath();
               ctx.arc(sx, sy, radiusPx, 0, 2 * Math.PI);
               ctx.stroke();
@@ -265,14 +321,48 @@ const SimulationCanvas: React.FC<Props> = ({
       ctx.setLineDash([]); // Reset dash
     }
 
+    // Optimizer regions
+    if (!isSection) {
+      regions.forEach(r => {
+        const { px: x0, py: y0 } = toCanvas({ x: r.x - r.width / 2, y: r.y - r.depth / 2, z: 0 }, width, height);
+        const { px: x1, py: y1 } = toCanvas({ x: r.x + r.width / 2, y: r.y + r.depth / 2, z: 0 }, width, height);
+        const color = r.kind === 'maximize' ? '34, 197, 94' : '239, 68, 68';
+        ctx.fillStyle = `rgba(${color}, 0.12)`;
+        ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
+        ctx.strokeStyle = `rgba(${color}, 0.9)`;
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([6, 4]);
+        ctx.strokeRect(x0, y0, x1 - x0, y1 - y0);
+        ctx.setLineDash([]);
+        ctx.fillStyle = `rgba(${color}, 1)`;
+        ctx.font = '11px sans-serif';
+        ctx.textAlign = 'left';
+        ctx.fillText(r.name, x0 + 4, y0 + 13);
+      });
+    }
+
+    // Virtual arc of the beam steering tool
+    if (!isSection && virtualArc.length > 1) {
+      ctx.strokeStyle = 'rgba(34, 211, 238, 0.9)';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([8, 4]);
+      ctx.beginPath();
+      virtualArc.forEach((p, i) => {
+        const { px, py } = toCanvas({ ...p, z: 0 }, width, height);
+        if (i === 0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
     // Speakers
     speakers.forEach(s => {
-      const x = metersToPixels(s.x, width, settings.venueWidth);
-      const y = metersToPixels(s.y, height, settings.venueDepth);
+      const { px: x, py: y } = toCanvas(s, width, height);
       
       const isSelected = selectedSpeakerIds.includes(s.id);
       const group = groups.find(g => g.id === s.groupId);
-      const color = group ? group.color : '#3b82f6'; // Default brand blue
+      const isMain = s.role === 'main';
+      const color = group ? group.color : (isMain ? '#f59e0b' : '#3b82f6'); // Default amber for main PA, brand blue for subs
       
       const isMuted = s.mute || (group?.mute ?? false);
 
@@ -285,8 +375,40 @@ const SimulationCanvas: React.FC<Props> = ({
           ctx.stroke();
       }
 
+      // Aim arrow
+      const aim = aimOnCanvas(s, width, height);
+      if (aim) {
+          const length = 8 + 12 * aim.visible;
+          const tipX = x + aim.dx * length;
+          const tipY = y + aim.dy * length;
+          ctx.strokeStyle = isMuted ? '#ef4444' : color;
+          ctx.lineWidth = 2;
+          ctx.beginPath(); ctx.moveTo(x, y); ctx.lineTo(tipX, tipY); ctx.stroke();
+          ctx.beginPath();
+          ctx.moveTo(tipX, tipY);
+          ctx.lineTo(tipX - aim.dx * 6 - aim.dy * 4, tipY - aim.dy * 6 + aim.dx * 4);
+          ctx.lineTo(tipX - aim.dx * 6 + aim.dy * 4, tipY - aim.dy * 6 - aim.dx * 4);
+          ctx.closePath();
+          ctx.fillStyle = ctx.strokeStyle;
+          ctx.fill();
+      }
+
+      // Rotate handle
+      const handle = isSelected ? rotateHandle(s, width, height) : null;
+      if (handle) {
+          ctx.beginPath();
+          ctx.arc(handle.hx, handle.hy, 4, 0, 2 * Math.PI);
+          ctx.fillStyle = '#fff';
+          ctx.fill();
+      }
+
+      // Subs are round, main PA boxes square
       ctx.beginPath();
-      ctx.arc(x, y, 8, 0, 2 * Math.PI);
+      if (isMain) {
+          ctx.rect(x - 7, y - 7, 14, 14);
+      } else {
+          ctx.arc(x, y, 8, 0, 2 * Math.PI);
+      }
       
       if (isMuted) {
           ctx.fillStyle = '#ef4444'; // Red if muted
@@ -301,17 +423,64 @@ const SimulationCanvas: React.FC<Props> = ({
       ctx.strokeStyle = isSelected ? '#fff' : (group ? '#fff' : '#ccc');
       ctx.stroke();
 
+      // Over-driven beyond the model's max SPL
+      if (exceedsMaxSpl(s, group)) {
+          ctx.beginPath();
+          ctx.arc(x, y, 12, 0, 2 * Math.PI);
+          ctx.setLineDash([3, 3]);
+          ctx.strokeStyle = '#ef4444';
+          ctx.stroke();
+          ctx.setLineDash([]);
+      }
+
       // Label
       ctx.fillStyle = '#fff';
       ctx.font = '12px sans-serif';
       ctx.textAlign = 'center';
       
-      // Show group name if in group
-      const label = s.name; // group ? `${group.name}: ${s.name}` : s.name;
+      // Show group name if in group; non-mono channels are tagged
+      const label = s.channel === 'mono' ? s.name : `${s.name} · ${s.channel}`; // group ? `${group.name}: ${s.name}` : s.name;
       ctx.fillText(label, x, y - 15);
     });
 
-  }, [speakers, groups, settings, selectedSpeakerIds, viewMode, c]);
+    // Microphones
+    mics.forEach(m => {
+      const { px: x, py: y } = toCanvas(m, width, height);
+
+      ctx.beginPath();
+      ctx.moveTo(x, y - 7);
+      ctx.lineTo(x + 6, y + 5);
+      ctx.lineTo(x - 6, y + 5);
+      ctx.closePath();
+      ctx.fillStyle = m.color;
+      ctx.fill();
+      ctx.lineWidth = 1.5;
+      ctx.strokeStyle = '#fff';
+      ctx.stroke();
+
+      ctx.fillStyle = m.color;
+      ctx.font = '11px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText(m.name, x, y + 18);
+    });
+
+    // Time-alignment reference
+    if (!isSection && referencePoint) {
+      const { px: x, py: y } = toCanvas(referencePoint, width, height);
+      ctx.strokeStyle = '#fbbf24';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(x, y, 7, 0, 2 * Math.PI);
+      ctx.moveTo(x - 11, y); ctx.lineTo(x + 11, y);
+      ctx.moveTo(x, y - 11); ctx.lineTo(x, y + 11);
+      ctx.stroke();
+      ctx.fillStyle = '#fbbf24';
+      ctx.font = '11px sans-serif';
+      ctx.textAlign = 'left';
+      ctx.fillText('Reference', x + 10, y - 8);
+    }
+
+  }, [speakers, groups, settings, selectedSpeakerIds, viewMode, c, projection, mics, regions, virtualArc, referencePoint]);
 
   // Interaction Handlers
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -321,14 +490,55 @@ const SimulationCanvas: React.FC<Props> = ({
     const mouseX = e.clientX - rect.left;
     const mouseY = e.clientY - rect.top;
 
+    const width = overlayRef.current!.width;
+    const height = overlayRef.current!.height;
+
+    if (onPickPoint && !isSection) {
+      onPickPoint({
+        x: pixelsToMeters(mouseX, width, settings.venueWidth),
+        y: pixelsToMeters(mouseY, height, settings.venueDepth),
+        z: settings.listenerHeight
+      });
+      return;
+    }
+
+    const startRotate = (pivotId: string, ids: string[]) => {
+      const initialRotations: Record<string, number> = {};
+      speakers.forEach(s => {
+        if (ids.includes(s.id)) initialRotations[s.id] = s.rotation;
+      });
+      setRotateDrag({ pivotId, initialRotations });
+      setDragStart({ x: mouseX, y: mouseY });
+      onDragStart();
+    };
+
+    // Rotate handles of selected speakers take priority
+    for (const s of speakers) {
+      if (!selectedSpeakerIds.includes(s.id)) continue;
+      const handle = rotateHandle(s, width, height);
+      if (handle && Math.sqrt((mouseX - handle.hx) ** 2 + (mouseY - handle.hy) ** 2) < 7) {
+        startRotate(s.id, selectedSpeakerIds);
+        return;
+      }
+    }
+
+    // Mics sit on top of speakers
+    for (let i = mics.length - 1; i >= 0; i--) {
+      const m = mics[i];
+      const { px, py } = toCanvas(m, width, height);
+      if (Math.sqrt((mouseX - px) ** 2 + (mouseY - py) ** 2) < 10) {
+        setDraggedMic({ id: m.id, initial: { x: m.x, y: m.y, z: m.z } });
+        setDragStart({ x: mouseX, y: mouseY });
+        onDragStart();
+        return;
+      }
+    }
+
     // Hit test
     let clickedId: string | null = null;
     for (let i = speakers.length - 1; i >= 0; i--) {
       const s = speakers[i];
-      const width = overlayRef.current!.width;
-      const height = overlayRef.current!.height;
-      const sx = metersToPixels(s.x, width, settings.venueWidth);
-      const sy = metersToPixels(s.y, height, settings.venueDepth);
+      const { px: sx, py: sy } = toCanvas(s, width, height);
       
       const dist = Math.sqrt((mouseX - sx) ** 2 + (mouseY - sy) ** 2);
       if (dist < 15) {
@@ -358,16 +568,23 @@ const SimulationCanvas: React.FC<Props> = ({
         }
         
         onSelectSpeakers(newSelection);
+
+        // Alt+Drag aims instead of moving
+        if (e.altKey && !isSection) {
+            startRotate(clickedId, newSelection);
+            return;
+        }
         
         // Setup Drag
         setIsDragging(true);
         setDragStart({ x: mouseX, y: mouseY });
+        onDragStart();
         
         // Snapshot positions
-        const positions: Record<string, {x: number, y: number}> = {};
+        const positions: Record<string, Position3D> = {};
         speakers.forEach(s => {
             if (newSelection.includes(s.id)) {
-                positions[s.id] = { x: s.x, y: s.y };
+                positions[s.id] = { x: s.x, y: s.y, z: s.z };
             }
         });
         setInitialPositions(positions);
@@ -378,7 +595,7 @@ const SimulationCanvas: React.FC<Props> = ({
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || !dragStart || selectedSpeakerIds.length === 0) return;
+    if (!dragStart) return;
     const rect = overlayRef.current?.getBoundingClientRect();
     if (!rect) return;
 
@@ -388,31 +605,74 @@ const SimulationCanvas: React.FC<Props> = ({
     const width = overlayRef.current!.width;
     const height = overlayRef.current!.height;
 
-    // Calculate delta in meters
+    // Calculate delta in pixels
     const deltaPixelsX = mouseX - dragStart.x;
     const deltaPixelsY = mouseY - dragStart.y;
-    
-    const deltaMetersX = (deltaPixelsX / width) * settings.venueWidth;
-    const deltaMetersY = (deltaPixelsY / height) * settings.venueDepth;
 
+    if (rotateDrag) {
+        const pivot = speakers.find(s => s.id === rotateDrag.pivotId);
+        if (!pivot) return;
+        const { px, py } = toCanvas(pivot, width, height);
+        // Aim the pivot at the mouse, measured in meters so the venue aspect ratio doesn't skew it
+        const dxm = ((mouseX - px) / width) * settings.venueWidth;
+        const dym = ((mouseY - py) / height) * settings.venueDepth;
+        if (dxm === 0 && dym === 0) return;
+        const delta = (Math.atan2(dxm, dym) * 180) / Math.PI - rotateDrag.initialRotations[pivot.id];
+        Object.keys(rotateDrag.initialRotations).forEach(id => {
+            const initial = rotateDrag.initialRotations[id];
+            onRotateSpeaker(id, Math.round(normalizeAngle(initial + delta)));
+        });
+        return;
+    }
+
+    if (draggedMic) {
+        onUpdateMic(draggedMic.id, dragPosition(draggedMic.initial, deltaPixelsX, deltaPixelsY, width, height));
+        return;
+    }
+    if (!isDragging || selectedSpeakerIds.length === 0) return;
+    
     // Update all selected speakers relative to their initial positions
     selectedSpeakerIds.forEach(id => {
         const initial = initialPositions[id];
-        if (initial) {
-             const newX = initial.x + deltaMetersX;
-             const newY = initial.y + deltaMetersY;
-             onUpdateSpeakerPosition(id, newX, newY);
-        }
+        if (!initial) return;
+        const { x, y, z } = dragPosition(initial, deltaPixelsX, deltaPixelsY, width, height);
+        onUpdateSpeakerPosition(id, x, y, z);
     });
   };
 
   const handleMouseUp = () => {
+    if (dragStart) onDragEnd();
     setIsDragging(false);
     setDragStart(null);
     setInitialPositions({});
+    setDraggedMic(null);
+    setRotateDrag(null);
+  };
+
+  // Double-click on the plan drops a microphone on the listening plane
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (isSection) return;
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const width = overlayRef.current!.width;
+    const height = overlayRef.current!.height;
+    const mouseX = e.clientX - rect.left;
+    const mouseY = e.clientY - rect.top;
+
+    // Double-clicking a speaker is just a click
+    const onSpeaker = speakers.some(s => {
+      const { px, py } = toCanvas(s, width, height);
+      return Math.sqrt((mouseX - px) ** 2 + (mouseY - py) ** 2) < 15;
+    });
+    if (onSpeaker) return;
+
+    onAddMic({
+      x: pixelsToMeters(mouseX, width, settings.venueWidth),
+      y: pixelsToMeters(mouseY, height, settings.venueDepth),
+      z: settings.listenerHeight
+    });
   };
 
-  const [dimensions, setDimensions] = useState({ w: 600, h: 600 });
   useEffect(() => {
     if(!containerRef.current) return;
     const obs = new ResizeObserver(entries => {
@@ -437,6 +697,7 @@ const SimulationCanvas: React.FC<Props> = ({
         height={dimensions.h}
         className="absolute top-0 left-0 w-full h-full focus:outline-none"
         onMouseDown={handleMouseDown}
+        onDoubleClick={handleDoubleClick}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
@@ -444,7 +705,11 @@ const SimulationCanvas: React.FC<Props> = ({
       />
       <div className="absolute top-4 left-4 pointer-events-none bg-black/60 backdrop-blur text-xs text-white p-2 rounded">
         <div>Resolution: {Math.round(dimensions.w)}px</div>
-        <div>Scale: {(settings.venueWidth / dimensions.w * 100).toFixed(1)} cm/px</div>
+        <div>Scale: {((isSection ? settings.venueDepth : settings.venueWidth) / dimensions.w * 100).toFixed(1)} cm/px</div>
+        <div>{isSection ? `Section at x = ${sectionX.toFixed(2)}m` : `Listening plane ${settings.listenerHeight}m`}</div>
+        {isBand && bandField && <div>Band: {bandField.frequencies.length} points, {settings.band.statistic === 'worst' ? 'worst case' : 'power average'}</div>}
+        {isRefining && <div className="text-slate-400">Refining…</div>}
+        {fieldError && <div className="text-red-400">Field calculation failed: {fieldError}</div>}
       </div>
     </div>
   );
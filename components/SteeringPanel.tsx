@@ -0,0 +1,94 @@
+import React from 'react';
+import { Speaker } from '../types';
+import { ArcMode, SteeringParams, SteeringPlan } from '../utils/beamSteering';
+import { Navigation, X } from 'lucide-react';
+
+interface Props {
+  speakers: Speaker[];
+  params: SteeringParams;
+  plan: SteeringPlan;
+  onChange: (params: SteeringParams) => void;
+  onApply: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-xs font-mono';
+
+// Steer angle and virtual arc for the selected straight line, with the per-box delays it needs
+const SteeringPanel: React.FC<Props> = ({ speakers, params, plan, onChange, onApply, onClose }) => {
+  const update = (updates: Partial<SteeringParams>) => onChange({ ...params, ...updates });
+
+  return (
+    <div className="w-72 min-h-0 flex flex-col bg-gray-900/95 border border-slate-700 rounded-lg shadow-xl text-slate-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-700">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-1">
+          <Navigation size={12}/> Beam Steering
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white"><X size={14}/></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-[10px] uppercase text-slate-500">Steer (°)
+            <input type="number" step="1" min="-89" max="89" value={params.steerAngle} onChange={(e) => update({ steerAngle: Number(e.target.value) })} className={inputClass}/>
+          </label>
+          <label className="text-[10px] uppercase text-slate-500">Virtual arc
+            <select value={params.arcMode} onChange={(e) => update({ arcMode: e.target.value as ArcMode })} className={inputClass}>
+              <option value="none">None</option>
+              <option value="radius">By radius</option>
+              <option value="angle">By angle</option>
+            </select>
+          </label>
+          {params.arcMode === 'radius' && (
+            <label className="text-[10px] uppercase text-slate-500">Radius (m)
+              <input type="number" step="0.5" min="0.5" value={params.radius} onChange={(e) => update({ radius: Math.max(0.5, Number(e.target.value)) })} className={inputClass}/>
+            </label>
+          )}
+          {params.arcMode === 'angle' && (
+            <label className="text-[10px] uppercase text-slate-500">Arc angle (°)
+              <input type="number" step="5" min="0" max="179" value={params.arcAngle} onChange={(e) => update({ arcAngle: Math.max(0, Number(e.target.value)) })} className={inputClass}/>
+            </label>
+          )}
+        </div>
+
+        {plan.error ? (
+          <p className="text-[10px] text-yellow-400">{plan.error}</p>
+        ) : (
+          <>
+            <p className="text-[10px] text-slate-500">
+              Line length {plan.length.toFixed(2)} m{plan.radius !== null && <>, virtual radius {plan.radius.toFixed(2)} m</>}
+            </p>
+            <table className="w-full text-[10px] font-mono">
+              <thead className="text-slate-500">
+                <tr><th className="text-left font-normal">Speaker</th><th className="text-right font-normal">Now</th><th className="text-right font-normal">Delay (ms)</th></tr>
+              </thead>
+              <tbody>
+                {plan.delays.map(d => {
+                  const s = speakers.find(sp => sp.id === d.id);
+                  if (!s) return null;
+                  return (
+                    <tr key={d.id}>
+                      <td className="truncate max-w-[6rem]">{s.name}</td>
+                      <td className="text-right text-slate-500">{s.delay.toFixed(2)}</td>
+                      <td className={`text-right ${Math.abs(s.delay - d.delay) > 1e-6 ? 'text-brand-500' : ''}`}>{d.delay.toFixed(2)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        <button
+          onClick={onApply}
+          disabled={plan.error !== null}
+          className="w-full py-1.5 rounded bg-brand-600 hover:bg-brand-500 disabled:opacity-40 disabled:hover:bg-brand-600 text-white text-xs font-medium"
+        >
+          Apply delays to {plan.delays.length || 'selected'} speakers
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SteeringPanel;
@@ -3,38 +3,232 @@ export interface Position {
   y: number; // meters
 }
 
+export interface Position3D extends Position {
+  z: number; // meters above the floor
+}
+
 export interface Group {
   id: string;
   name: string;
   color: string;
+  gain: number; // dB, added to each member's gain (shared DSP output)
+  delay: number; // ms, added to each member's delay
+  polarity: boolean; // inverts every member, on top of its own polarity
+  filters: DspFilter[]; // applied to every member before its own chain
   mute: boolean;
   solo: boolean;
 }
 
+// One point of a tabulated loudspeaker response
+export interface ResponseSample {
+  frequency: number; // Hz
+  magnitude: number; // dB relative to the model sensitivity
+  phase: number; // degrees, unwrapped
+}
+
+// First-order directivity per frequency: gain = (1 - pattern) + pattern * cos(angle off axis).
+// 0 = omni, 0.5 = cardioid, 1 = figure-of-eight
+export interface DirectivitySample {
+  frequency: number; // Hz
+  pattern: number;
+}
+
+export interface SpeakerModel {
+  id: string;
+  name: string;
+  sensitivity: number; // dB SPL at 1 m on axis for 0 dB drive, in the passband
+  maxSpl: number; // dB SPL at 1 m (peak)
+  response: ResponseSample[]; // sorted by frequency
+  directivity: DirectivitySample[]; // sorted by frequency
+}
+
 export interface Speaker {
   id: string;
   groupId?: string; // Optional reference to a group
+  modelId: string; // SpeakerModel id
+  role: SpeakerRole;
+  channel: SignalChannel; // programme feed; only sources on the same channel interfere
   x: number; // meters from center
   y: number; // meters from center
-  z: number; // height (reserved for 3D future use, default 0)
+  z: number; // height above the floor (meters)
+  rotation: number; // azimuth in degrees, 0 = facing the audience (+y), positive towards +x
   gain: number; // dB
   delay: number; // milliseconds
   polarity: boolean; // true = inverted
+  filters: DspFilter[]; // processing chain, in signal order
   mute: boolean;
   solo: boolean;
   name: string;
 }
 
+// Subwoofers or the main PA (tops) they cross over to
+export type SpeakerRole = 'sub' | 'main';
+
+// Signal feed. Sources on the same channel sum coherently; different channels carry
+// uncorrelated programme and sum in power.
+export type SignalChannel = 'mono' | 'L' | 'R' | 'aux';
+
+export type FilterType = 'lowpass' | 'highpass' | 'allpass' | 'peak' | 'lowshelf' | 'highshelf';
+
+export type FilterAlignment = 'butterworth' | 'linkwitz-riley';
+
+// One stage of a DSP chain; which fields apply depends on the type
+export interface DspFilter {
+  type: FilterType;
+  frequency: number; // Hz, corner / centre
+  q: number; // peak, shelves and 2nd-order all-pass
+  gain: number; // dB, peak and shelves
+  order: number; // low/high-pass: 1-8 (Linkwitz-Riley: 2, 4 or 8); all-pass: 1 or 2
+  alignment: FilterAlignment; // low/high-pass
+  bypass: boolean;
+}
+
+// Virtual measurement microphone
+export interface Microphone {
+  id: string;
+  name: string;
+  color: string;
+  x: number; // meters
+  y: number; // meters
+  z: number; // meters above the floor
+}
+
+// A reflecting surface for the image-source model
+export interface Boundary {
+  enabled: boolean;
+  reflection: number; // pressure reflection coefficient (0-1)
+  order: number; // max number of reflections off this boundary per path
+}
+
+export interface BoundarySettings {
+  left: Boundary; // x = -venueWidth/2
+  right: Boundary; // x = +venueWidth/2
+  back: Boundary; // y = -venueDepth/2
+  front: Boundary; // y = +venueDepth/2
+  floor: Boundary; // ground plane (order is capped at 1)
+}
+
+// Broadband (band-averaged) evaluation
+export interface BandSettings {
+  minFrequency: number; // Hz
+  maxFrequency: number; // Hz
+  pointsPerOctave: 3 | 12; // 1/3- or 1/12-octave spacing
+  weighting: 'Z' | 'A' | 'C';
+  statistic: 'average' | 'worst'; // power average or lowest level across the band
+}
+
+// Heatmap color scale. Relative mode spans dynamicRange below the loudest point;
+// absolute mode maps a fixed dB SPL window so designs can be compared against each other.
+export interface LevelScale {
+  absolute: boolean;
+  minSpl: number; // dB SPL at the bottom of the absolute scale
+  maxSpl: number; // dB SPL at the top of the absolute scale
+}
+
 export interface SimulationSettings {
   frequency: number; // Hz
   temperature: number; // Celsius
   venueWidth: number; // meters
   venueDepth: number; // meters
-  resolution: number; // pixels per meter (calculation density)
-  dynamicRange: number; // dB (heatmap range)
+  venueHeight: number; // meters (extent of the elevation view)
+  listenerHeight: number; // meters (height of the horizontal listening plane)
+  resolution: number; // calculation points per meter (field grid density)
+  dynamicRange: number; // dB (heatmap range in relative mode)
+  levelScale: LevelScale;
+  boundaries: BoundarySettings;
+  band: BandSettings;
 }
 
+export type ViewMode = 'SPL' | 'Phase' | 'Band' | 'Crossover' | 'Mono';
+
 export interface Complex {
   re: number;
   im: number;
-}
\ No newline at end of file
+}
+
+// Which slice of the venue a grid samples
+export type FieldPlane = 'plan' | 'section';
+
+// Regular calculation grid in meters. Samples sit at cell centres.
+// plan: columns run along x, rows along y, on the listening plane z = offset.
+// section: vertical cut at x = offset; columns run along y, rows run downwards from the top (v = -z).
+export interface FieldGrid {
+  plane: FieldPlane;
+  offset: number; // meters
+  u0: number; // meters, left edge
+  v0: number; // meters, top edge
+  step: number; // meters between samples
+  cols: number;
+  rows: number;
+}
+
+// Coherent sum of the sources on one signal channel
+export interface ChannelField {
+  channel: SignalChannel;
+  re: Float32Array;
+  im: Float32Array;
+}
+
+// Complex field result, row-major over grid.
+// re/im is the coherent sum of every source (as if all channels carried the same signal);
+// mag is the level with channels summed in power.
+export interface SoundField {
+  grid: FieldGrid;
+  re: Float32Array;
+  im: Float32Array;
+  mag: Float32Array;
+  channels: ChannelField[]; // per-channel sums, empty when every source is on one channel
+  maxMagnitude: number;
+  sourceCount: number; // active sources that contributed
+  // Sum of the main-PA sources alone, for the crossover view; the subs are the remainder
+  mainRe?: Float32Array;
+  mainIm?: Float32Array;
+}
+
+// Broadband result over a grid, magnitudes include the frequency weighting
+export interface BandField {
+  grid: FieldGrid;
+  frequencies: number[]; // Hz, evaluation points
+  average: Float32Array; // rms pressure across the band (power average)
+  worst: Float32Array; // lowest pressure across the band
+  maxAverage: number;
+  sourceCount: number;
+}
+
+// Rectangular area of the plan the optimizer should make louder or quieter
+export interface OptimizerRegion {
+  id: string;
+  name: string;
+  kind: 'maximize' | 'minimize';
+  x: number; // centre, meters
+  y: number; // centre, meters
+  width: number; // along x, meters
+  depth: number; // along y, meters
+}
+
+// Everything needed to restore a design
+export interface Scene {
+  speakers: Speaker[];
+  groups: Group[];
+  mics: Microphone[];
+  regions: OptimizerRegion[];
+  settings: SimulationSettings;
+  viewMode: ViewMode;
+}
+
+// On-disk scene file. `version` is bumped whenever the layout changes; older files are migrated on load.
+export interface SceneFile extends Scene {
+  format: string;
+  version: number;
+  savedAt: string; // ISO timestamp
+}
+
+// Entry in the browser-local project library
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: string; // ISO timestamp
+}
+
+// The undoable part of a scene (switching the view is not an edit)
+export type SceneSnapshot = Omit<Scene, 'viewMode'>;
@@ -0,0 +1,172 @@
+import { Speaker } from '../types';
+import { calculateSpeedOfSound } from './physics';
+
+// Parametric subwoofer array layouts.
+// Layouts are built in a local frame (u across the array, v towards its front), then rotated and moved
+// to the origin. Rotation follows the speaker convention: 0 = firing towards the audience (+y), positive towards +x.
+
+export type ArrayTopology = 'line' | 'arc' | 'endfire' | 'endfire-columns' | 'gradient' | 'inverted-stack';
+
+export type GainTaper = 'none' | 'linear' | 'cosine';
+
+export interface ArrayParams {
+  topology: ArrayTopology;
+  count: number; // elements across (columns, pairs or clusters for the compound layouts)
+  rows: number; // end-fire depth for 'endfire-columns'
+  spacing: number; // meters between neighbours across the array
+  targetFrequency: number; // Hz, sets the depth spacing and delays of end-fire and gradient layouts
+  arcAngle: number; // degrees spanned by an 'arc'
+  originX: number; // meters
+  originY: number; // meters
+  rotation: number; // degrees
+  taper: GainTaper;
+  taperDepth: number; // dB of attenuation at the outermost elements
+  modelId: string;
+}
+
+export type GeneratedSpeaker = Omit<Speaker, 'id' | 'groupId'>;
+
+export const ARRAY_TOPOLOGIES: { id: ArrayTopology; name: string; description: string }[] = [
+  { id: 'line', name: 'Line', description: 'Broadside line, all in phase' },
+  { id: 'arc', name: 'Arc', description: 'Physically curved line, boxes aimed along the radius' },
+  { id: 'endfire', name: 'End-Fire', description: 'Boxes one behind the other at λ/4, delayed towards the front' },
+  { id: 'endfire-columns', name: 'End-Fire Columns', description: 'A line of end-fire columns' },
+  { id: 'gradient', name: 'Cardioid Gradient', description: 'A line of front boxes, each with an inverted, delayed box λ/4 behind' },
+  { id: 'inverted-stack', name: 'Inverted Stack', description: 'Clusters of three, the middle box facing backwards in reverse polarity' }
+];
+
+// Width of an inverted-stack cluster and the rear box's offset towards the front
+const CLUSTER_WIDTH = 1.2;
+const CLUSTER_REAR_OFFSET = 0.1;
+
+// Gain in dB for position t in [-1, 1] across the array
+function taperGain(taper: GainTaper, depth: number, t: number): number {
+  if (taper === 'none') return 0;
+  const weight = taper === 'linear' ? 1 - Math.abs(t) : Math.cos((Math.PI / 2) * t);
+  return -depth * (1 - weight);
+}
+
+// Speaker in the local frame before placement
+interface LocalElement {
+  u: number;
+  v: number;
+  column: number; // index across the array, for tapering
+  aim: number; // local azimuth, degrees
+  delay: number;
+  polarity: boolean;
+  name: string;
+}
+
+function layout(params: ArrayParams, c: number): LocalElement[] {
+  const count = Math.max(1, Math.round(params.count));
+  const rows = Math.max(1, Math.round(params.rows));
+  const quarterWave = c / params.targetFrequency / 4;
+  const quarterWaveMs = (quarterWave / c) * 1000;
+  const across = (i: number) => (i - (count - 1) / 2) * params.spacing;
+  const elements: LocalElement[] = [];
+
+  switch (params.topology) {
+    case 'line':
+      for (let i = 0; i < count; i++) {
+        elements.push({ u: across(i), v: 0, column: i, aim: 0, delay: 0, polarity: false, name: `Sub ${i + 1}` });
+      }
+      break;
+    case 'arc': {
+      const span = (Math.min(Math.abs(params.arcAngle), 359) * Math.PI) / 180;
+      if (count === 1 || span === 0) return layout({ ...params, topology: 'line' }, c);
+      // Chord between neighbours = spacing
+      const step = span / (count - 1);
+      const radius = params.spacing / (2 * Math.sin(step / 2));
+      for (let i = 0; i < count; i++) {
+        const a = -span / 2 + i * step;
+        elements.push({
+          u: radius * Math.sin(a),
+          v: radius * (Math.cos(a) - 1),
+          column: i,
+          aim: (a * 180) / Math.PI,
+          delay: 0,
+          polarity: false,
+          name: `Arc ${i + 1}`
+        });
+      }
+      break;
+    }
+    case 'endfire':
+      for (let r = 0; r < count; r++) {
+        elements.push({
+          u: 0,
+          v: (r - (count - 1)) * quarterWave,
+          column: 0,
+          aim: 0,
+          delay: r * quarterWaveMs,
+          polarity: false,
+          name: `EF ${r + 1}`
+        });
+      }
+      break;
+    case 'endfire-columns':
+      for (let i = 0; i < count; i++) {
+        for (let r = 0; r < rows; r++) {
+          elements.push({
+            u: across(i),
+            v: (r - (rows - 1)) * quarterWave,
+            column: i,
+            aim: 0,
+            delay: r * quarterWaveMs,
+            polarity: false,
+            name: `EF ${i + 1}.${r + 1}`
+          });
+        }
+      }
+      break;
+    case 'gradient':
+      for (let i = 0; i < count; i++) {
+        elements.push({ u: across(i), v: 0, column: i, aim: 0, delay: 0, polarity: false, name: `Front ${i + 1}` });
+        elements.push({ u: across(i), v: -quarterWave, column: i, aim: 0, delay: quarterWaveMs, polarity: true, name: `Rear ${i + 1}` });
+      }
+      break;
+    case 'inverted-stack':
+      for (let i = 0; i < count; i++) {
+        const u = across(i);
+        elements.push({ u: u - CLUSTER_WIDTH / 2, v: 0, column: i, aim: 0, delay: 0, polarity: false, name: `Stack ${i + 1}a` });
+        elements.push({ u, v: CLUSTER_REAR_OFFSET, column: i, aim: 180, delay: 0, polarity: true, name: `Stack ${i + 1} Rev` });
+        elements.push({ u: u + CLUSTER_WIDTH / 2, v: 0, column: i, aim: 0, delay: 0, polarity: false, name: `Stack ${i + 1}b` });
+      }
+      break;
+  }
+  return elements;
+}
+
+const normalizeAngle = (deg: number) => {
+  const a = ((deg + 180) % 360 + 360) % 360 - 180;
+  return a === -180 ? 180 : a;
+};
+
+export function generateArray(params: ArrayParams, temperature: number): GeneratedSpeaker[] {
+  const c = calculateSpeedOfSound(temperature);
+  const elements = layout(params, c);
+  const columns = Math.max(...elements.map(e => e.column)) + 1;
+  const theta = (params.rotation * Math.PI) / 180;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+
+  return elements.map(e => {
+    const t = columns > 1 ? (2 * e.column) / (columns - 1) - 1 : 0;
+    return {
+      name: e.name,
+      modelId: params.modelId,
+      role: 'sub',
+      channel: 'mono',
+      x: Math.round((params.originX + e.u * cos + e.v * sin) * 1000) / 1000,
+      y: Math.round((params.originY - e.u * sin + e.v * cos) * 1000) / 1000,
+      z: 0,
+      rotation: normalizeAngle(params.rotation + e.aim),
+      gain: Math.round(taperGain(params.taper, params.taperDepth, t) * 10) / 10,
+      delay: Math.round(e.delay * 100) / 100,
+      polarity: e.polarity,
+      filters: [],
+      mute: false,
+      solo: false
+    };
+  });
+}
@@ -0,0 +1,116 @@
+import { Speaker, Group, SimulationSettings, BandSettings, FieldGrid, SoundField, BandField } from '../types';
+import { FieldSource, allocateSoundField, buildFieldSources, clearFieldRows, computeFieldRows, createFieldGrid, getLogFrequencies, getSourceChannels, getWavenumber } from './physics';
+
+// Broadband evaluation: the field is computed at fractional-octave spaced frequencies across
+// settings.band and folded into a power average and a worst-case (lowest level) map.
+
+// Evaluation frequencies for the band settings
+export function getBandFrequencies(band: BandSettings): number[] {
+  return getLogFrequencies(band.minFrequency, band.maxFrequency, band.pointsPerOctave);
+}
+
+// IEC 61672 frequency weighting in dB (Z = flat)
+export function getWeightingDb(frequency: number, weighting: BandSettings['weighting']): number {
+  const f2 = frequency * frequency;
+
+  switch (weighting) {
+    case 'A': {
+      const ra = (12194 ** 2 * f2 * f2) /
+        ((f2 + 20.6 ** 2) * Math.sqrt((f2 + 107.7 ** 2) * (f2 + 737.9 ** 2)) * (f2 + 12194 ** 2));
+      return 20 * Math.log10(ra) + 2.0;
+    }
+    case 'C': {
+      const rc = (12194 ** 2 * f2) / ((f2 + 20.6 ** 2) * (f2 + 12194 ** 2));
+      return 20 * Math.log10(rc) + 0.06;
+    }
+    default:
+      return 0;
+  }
+}
+
+// Everything that depends on frequency, resolved once per band job
+export interface BandPlan {
+  frequencies: number[];
+  weights: number[]; // linear weighting gain per frequency
+  sources: FieldSource[][]; // per frequency
+  wavenumbers: number[]; // per frequency
+}
+
+export function planBand(speakers: Speaker[], groups: Group[], settings: SimulationSettings): BandPlan {
+  const frequencies = getBandFrequencies(settings.band);
+  return {
+    frequencies,
+    weights: frequencies.map(f => Math.pow(10, getWeightingDb(f, settings.band.weighting) / 20)),
+    sources: frequencies.map(f => buildFieldSources(speakers, groups, { ...settings, frequency: f })),
+    wavenumbers: frequencies.map(f => getWavenumber({ ...settings, frequency: f }))
+  };
+}
+
+export function allocateBandField(grid: FieldGrid, plan: BandPlan): BandField {
+  const size = grid.cols * grid.rows;
+  return {
+    grid,
+    frequencies: plan.frequencies,
+    average: new Float32Array(size),
+    worst: new Float32Array(size),
+    maxAverage: 0,
+    sourceCount: plan.sources[0]?.length ?? 0
+  };
+}
+
+// Single-frequency buffers for computeBandRows, with a channel split matching the plan's sources
+export function allocateBandScratch(grid: FieldGrid, plan: BandPlan): SoundField {
+  const sources = plan.sources[0] ?? [];
+  return allocateSoundField(grid, sources.length, getSourceChannels(sources));
+}
+
+// Fill rows [rowStart, rowEnd) of a band field. scratch comes from allocateBandScratch for the same
+// grid and plan, and is reused across calls to hold the single-frequency result.
+export function computeBandRows(
+  band: BandField,
+  plan: BandPlan,
+  scratch: SoundField,
+  rowStart: number,
+  rowEnd: number
+): void {
+  const { grid, average, worst } = band;
+  const start = rowStart * grid.cols;
+  const end = Math.min(rowEnd, grid.rows) * grid.cols;
+
+  average.fill(0, start, end);
+  worst.fill(Infinity, start, end);
+
+  plan.frequencies.forEach((_, i) => {
+    clearFieldRows(scratch, rowStart, rowEnd);
+    computeFieldRows(scratch, plan.sources[i], plan.wavenumbers[i], rowStart, rowEnd);
+
+    const w = plan.weights[i];
+    for (let idx = start; idx < end; idx++) {
+      const p = scratch.mag[idx] * w;
+      average[idx] += p * p; // accumulate power
+      if (p < worst[idx]) worst[idx] = p;
+    }
+  });
+
+  // Back to an rms pressure so both maps read in the same units
+  const count = Math.max(plan.frequencies.length, 1);
+  let maxAverage = band.maxAverage;
+  for (let idx = start; idx < end; idx++) {
+    average[idx] = Math.sqrt(average[idx] / count);
+    if (average[idx] > maxAverage) maxAverage = average[idx];
+  }
+  band.maxAverage = maxAverage;
+}
+
+// Headless band engine, the broadband counterpart of computeSoundField
+export function computeBandField(
+  speakers: Speaker[],
+  groups: Group[],
+  settings: SimulationSettings,
+  grid: FieldGrid = createFieldGrid(settings)
+): BandField {
+  const plan = planBand(speakers, groups, settings);
+  const band = allocateBandField(grid, plan);
+  computeBandRows(band, plan, allocateBandScratch(grid, plan), 0, grid.rows);
+  return band;
+}
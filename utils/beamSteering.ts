@@ -0,0 +1,104 @@
+import { Speaker, Position } from '../types';
+import { calculateSpeedOfSound } from './physics';
+
+// Electronic steering and virtual arcing of a straight line of subs.
+// Each box is delayed as if it sat on a curved line behind the real one and the whole line were turned
+// towards the steer direction: the delay is the setback of its virtual position divided by the speed of sound.
+
+export type ArcMode = 'none' | 'radius' | 'angle';
+
+export interface SteeringParams {
+  steerAngle: number; // degrees off the line's axis, positive in the speaker rotation sense
+  arcMode: ArcMode;
+  radius: number; // meters, for 'radius'
+  arcAngle: number; // degrees included by the virtual arc, for 'angle'
+}
+
+export interface SteeringDelay {
+  id: string;
+  delay: number; // ms
+}
+
+export interface SteeringPlan {
+  delays: SteeringDelay[];
+  arc: Position[]; // virtual line the boxes appear to radiate from
+  length: number; // meters between the outermost boxes
+  radius: number | null; // meters, when arced
+  error: string | null;
+}
+
+// Boxes may sit this far off the fitted line and still count as straight
+const STRAIGHT_TOLERANCE = 0.15; // m
+const ARC_POINTS = 32;
+
+const failed = (error: string): SteeringPlan => ({ delays: [], arc: [], length: 0, radius: null, error });
+
+export function planSteering(speakers: Speaker[], params: SteeringParams, temperature: number): SteeringPlan {
+  if (speakers.length < 2) return failed('Select at least two speakers in a line.');
+  if (Math.abs(params.steerAngle) >= 90) return failed('Steer angle must be between -90° and 90°.');
+
+  // Principal axis through the boxes
+  const cx = speakers.reduce((sum, s) => sum + s.x, 0) / speakers.length;
+  const cy = speakers.reduce((sum, s) => sum + s.y, 0) / speakers.length;
+  let sxx = 0, syy = 0, sxy = 0;
+  speakers.forEach(s => {
+    sxx += (s.x - cx) ** 2;
+    syy += (s.y - cy) ** 2;
+    sxy += (s.x - cx) * (s.y - cy);
+  });
+  const phi = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+
+  // Front normal in the speaker rotation convention (0 = +y), facing the way the boxes are aimed
+  const aimX = speakers.reduce((sum, s) => sum + Math.sin((s.rotation * Math.PI) / 180), 0);
+  const aimY = speakers.reduce((sum, s) => sum + Math.cos((s.rotation * Math.PI) / 180), 0);
+  let normal = { x: -Math.sin(phi), y: Math.cos(phi) };
+  if (normal.x * aimX + normal.y * aimY < 0) normal = { x: -normal.x, y: -normal.y };
+  // Axis 90° clockwise of the normal, so positive steering turns the beam towards +u
+  const axis = { x: normal.y, y: -normal.x };
+
+  const u = speakers.map(s => (s.x - cx) * axis.x + (s.y - cy) * axis.y);
+  const offLine = speakers.map(s => Math.abs((s.x - cx) * normal.x + (s.y - cy) * normal.y));
+  if (Math.max(...offLine) > STRAIGHT_TOLERANCE) return failed('Speakers are not in a straight line.');
+
+  const uMin = Math.min(...u);
+  const uMax = Math.max(...u);
+  const length = uMax - uMin;
+  if (length < 0.01) return failed('Speakers are stacked at one point.');
+  const uMid = (uMin + uMax) / 2;
+
+  let radius: number | null = null;
+  if (params.arcMode === 'radius') {
+    if (params.radius < length / 2) return failed(`Radius must be at least half the line length (${(length / 2).toFixed(2)} m).`);
+    radius = params.radius;
+  } else if (params.arcMode === 'angle' && params.arcAngle > 0) {
+    if (params.arcAngle >= 180) return failed('Arc angle must be below 180°.');
+    radius = length / 2 / Math.sin((params.arcAngle * Math.PI) / 360);
+  }
+
+  // Setback along the beam direction, meters, before normalizing so the earliest box has none
+  const theta = (params.steerAngle * Math.PI) / 180;
+  const beam = { x: normal.x * Math.cos(theta) + axis.x * Math.sin(theta), y: normal.y * Math.cos(theta) + axis.y * Math.sin(theta) };
+  const setback = (pos: number) => {
+    const bend = radius === null ? 0 : radius - Math.sqrt(Math.max(0, radius * radius - (pos - uMid) ** 2));
+    return bend + Math.sin(theta) * (pos - uMid);
+  };
+  const minSetback = Math.min(...u.map(setback), setback(uMin), setback(uMax));
+
+  const c = calculateSpeedOfSound(temperature);
+  const delays = speakers.map((s, i) => ({
+    id: s.id,
+    delay: Math.round(((setback(u[i]) - minSetback) / c) * 1000 * 100) / 100
+  }));
+
+  const arc: Position[] = [];
+  for (let i = 0; i <= ARC_POINTS; i++) {
+    const pos = uMin + (length * i) / ARC_POINTS;
+    const back = setback(pos) - minSetback;
+    arc.push({
+      x: cx + axis.x * pos - beam.x * back,
+      y: cy + axis.y * pos - beam.y * back
+    });
+  }
+
+  return { delays, arc, length, radius, error: null };
+}
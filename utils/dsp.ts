@@ -0,0 +1,115 @@
+import { Complex, DspFilter, FilterType, Group, Speaker } from '../types';
+import type { ResponsePoint } from './response';
+
+// Speaker and group DSP chains.
+// Filters are analog prototypes evaluated at s = j f / f0, so magnitude and phase are exact at any
+// frequency and independent of a sample rate. Shelf and peak shapes follow the RBJ cookbook.
+
+export const FILTER_TYPES: { id: FilterType; name: string }[] = [
+  { id: 'highpass', name: 'High-pass' },
+  { id: 'lowpass', name: 'Low-pass' },
+  { id: 'allpass', name: 'All-pass' },
+  { id: 'peak', name: 'PEQ' },
+  { id: 'lowshelf', name: 'Low shelf' },
+  { id: 'highshelf', name: 'High shelf' }
+];
+
+// Linkwitz-Riley filters are squared Butterworths, so only even orders exist
+export const LINKWITZ_RILEY_ORDERS = [2, 4, 8];
+export const MAX_FILTER_ORDER = 8;
+
+export function createFilter(type: FilterType): DspFilter {
+  switch (type) {
+    case 'highpass':
+      return { type, frequency: 30, q: 0.707, gain: 0, order: 4, alignment: 'butterworth', bypass: false };
+    case 'lowpass':
+      return { type, frequency: 100, q: 0.707, gain: 0, order: 4, alignment: 'linkwitz-riley', bypass: false };
+    case 'allpass':
+      return { type, frequency: 60, q: 0.707, gain: 0, order: 2, alignment: 'butterworth', bypass: false };
+    case 'peak':
+      return { type, frequency: 60, q: 2, gain: -3, order: 2, alignment: 'butterworth', bypass: false };
+    case 'lowshelf':
+    case 'highshelf':
+      return { type, frequency: type === 'lowshelf' ? 40 : 100, q: 0.707, gain: 3, order: 2, alignment: 'butterworth', bypass: false };
+  }
+}
+
+const mul = (a: Complex, b: Complex): Complex => ({ re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re });
+
+const div = (a: Complex, b: Complex): Complex => {
+  const d = b.re * b.re + b.im * b.im;
+  return { re: (a.re * b.re + a.im * b.im) / d, im: (a.im * b.re - a.re * b.im) / d };
+};
+
+// Quadratic a s^2 + b s + c at s = j w
+const quadratic = (a: number, b: number, c: number, w: number): Complex => ({ re: c - a * w * w, im: b * w });
+
+// Normalized Butterworth low-pass of order n at s = j w: 1 / prod(s - p_k)
+function butterworthLowPass(order: number, w: number): Complex {
+  let h: Complex = { re: 1, im: 0 };
+  for (let k = 1; k <= order; k++) {
+    const angle = (Math.PI * (2 * k + order - 1)) / (2 * order);
+    h = div(h, { re: -Math.cos(angle), im: w - Math.sin(angle) });
+  }
+  return h;
+}
+
+export function filterResponse(filter: DspFilter, frequency: number): Complex {
+  if (filter.bypass) return { re: 1, im: 0 };
+  const w = frequency / Math.max(filter.frequency, 1e-3);
+  const q = Math.max(filter.q, 0.05);
+  const order = Math.min(MAX_FILTER_ORDER, Math.max(1, Math.round(filter.order)));
+
+  switch (filter.type) {
+    case 'lowpass':
+    case 'highpass': {
+      // High-pass is the low-pass with s -> 1/s, i.e. w -> -1/w on the imaginary axis
+      const x = filter.type === 'lowpass' ? w : -1 / Math.max(w, 1e-9);
+      if (filter.alignment === 'linkwitz-riley') {
+        const half = butterworthLowPass(Math.max(1, Math.round(order / 2)), x);
+        return mul(half, half);
+      }
+      return butterworthLowPass(order, x);
+    }
+    case 'allpass':
+      if (order === 1) return div({ re: 1, im: -w }, { re: 1, im: w });
+      return div(quadratic(1, -1 / q, 1, w), quadratic(1, 1 / q, 1, w));
+    case 'peak': {
+      const a = Math.pow(10, filter.gain / 40);
+      return div(quadratic(1, a / q, 1, w), quadratic(1, 1 / (a * q), 1, w));
+    }
+    case 'lowshelf': {
+      const a = Math.pow(10, filter.gain / 40);
+      const h = div(quadratic(1, Math.sqrt(a) / q, a, w), quadratic(a, Math.sqrt(a) / q, 1, w));
+      return { re: a * h.re, im: a * h.im };
+    }
+    case 'highshelf': {
+      const a = Math.pow(10, filter.gain / 40);
+      const h = div(quadratic(a, Math.sqrt(a) / q, 1, w), quadratic(1, Math.sqrt(a) / q, a, w));
+      return { re: a * h.re, im: a * h.im };
+    }
+  }
+}
+
+export function chainResponse(filters: DspFilter[], frequency: number): Complex {
+  return filters.reduce<Complex>((h, f) => mul(h, filterResponse(f, frequency)), { re: 1, im: 0 });
+}
+
+// Group chain followed by the speaker's own chain
+export function getSpeakerFilterResponse(speaker: Speaker, groups: Group[], frequency: number): Complex {
+  const group = groups.find(g => g.id === speaker.groupId);
+  const own = chainResponse(speaker.filters, frequency);
+  return group ? mul(chainResponse(group.filters, frequency), own) : own;
+}
+
+// Transfer function of a chain, for plotting
+export function chainCurve(filters: DspFilter[], frequencies: number[]): ResponsePoint[] {
+  return frequencies.map(frequency => {
+    const h = chainResponse(filters, frequency);
+    return {
+      frequency,
+      magnitude: 10 * Math.log10(Math.max(h.re * h.re + h.im * h.im, 1e-12)),
+      phase: (Math.atan2(h.im, h.re) * 180) / Math.PI
+    };
+  });
+}
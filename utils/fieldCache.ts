@@ -0,0 +1,143 @@
+import { FieldGrid, SignalChannel, SoundField } from '../types';
+import { FieldSource, allocateSoundField, getSourceChannels, updateFieldMagnitude } from './physics';
+
+// Incremental field summation.
+// Keeps every source's complex contribution grid plus their running sum, so that moving one
+// speaker only recomputes that speaker's term. A source is recomputed whenever anything in its
+// FieldSource changes (position, gain, delay, polarity...); everything is recomputed when the
+// grid or the wavenumber (frequency / temperature) changes.
+// Running sums are kept per signal channel, since channels only add up in power.
+
+interface SourceContribution {
+  signature: string;
+  channel: SignalChannel;
+  re: Float32Array;
+  im: Float32Array;
+}
+
+// Float64 so repeated subtract/add does not drift
+interface ChannelSum {
+  re: Float64Array;
+  im: Float64Array;
+}
+
+export interface FieldCache {
+  grid: FieldGrid | null;
+  k: number;
+  contributions: Map<string, SourceContribution>;
+  sums: Map<SignalChannel, ChannelSum>;
+  retain: boolean; // false when per-source grids would exceed the memory budget
+}
+
+// Upper bound on cached per-source values (re + im), ~128 MB of Float32
+const MAX_CACHED_VALUES = 32_000_000;
+
+export function createFieldCache(): FieldCache {
+  return {
+    grid: null,
+    k: 0,
+    contributions: new Map(),
+    sums: new Map(),
+    retain: true
+  };
+}
+
+const sameGrid = (a: FieldGrid | null, b: FieldGrid) =>
+  !!a && a.plane === b.plane && a.offset === b.offset && a.u0 === b.u0 && a.v0 === b.v0 && a.step === b.step && a.cols === b.cols && a.rows === b.rows;
+
+export const sourceSignature = (source: FieldSource) => JSON.stringify(source);
+
+function resetFieldCache(cache: FieldCache, grid: FieldGrid, k: number) {
+  cache.grid = grid;
+  cache.k = k;
+  cache.contributions.clear();
+  cache.sums.clear();
+}
+
+function getChannelSum(cache: FieldCache, channel: SignalChannel): ChannelSum {
+  let sum = cache.sums.get(channel);
+  if (!sum) {
+    const size = cache.grid!.cols * cache.grid!.rows;
+    sum = { re: new Float64Array(size), im: new Float64Array(size) };
+    cache.sums.set(channel, sum);
+  }
+  return sum;
+}
+
+function subtractContribution(cache: FieldCache, c: SourceContribution) {
+  const sum = getChannelSum(cache, c.channel);
+  for (let i = 0; i < sum.re.length; i++) {
+    sum.re[i] -= c.re[i];
+    sum.im[i] -= c.im[i];
+  }
+}
+
+// Bring the cache in line with the current sources. Drops contributions of removed or changed
+// sources from the running sum and returns the sources that still need computing.
+export function syncFieldCache(cache: FieldCache, sources: FieldSource[], grid: FieldGrid, k: number): FieldSource[] {
+  const retain = grid.cols * grid.rows * 2 * sources.length <= MAX_CACHED_VALUES;
+
+  if (!sameGrid(cache.grid, grid) || cache.k !== k || !retain || !cache.retain) {
+    resetFieldCache(cache, grid, k);
+  }
+  cache.retain = retain;
+
+  const current = new Map(sources.map(s => [s.id, sourceSignature(s)]));
+  cache.contributions.forEach((c, id) => {
+    if (current.get(id) !== c.signature) {
+      subtractContribution(cache, c);
+      cache.contributions.delete(id);
+    }
+  });
+
+  return sources.filter(s => !cache.contributions.has(s.id));
+}
+
+// Add a fully computed source contribution to the running sum
+export function commitContribution(cache: FieldCache, source: FieldSource, re: Float32Array, im: Float32Array): void {
+  const sum = getChannelSum(cache, source.channel);
+  for (let i = 0; i < sum.re.length; i++) {
+    sum.re[i] += re[i];
+    sum.im[i] += im[i];
+  }
+  if (cache.retain) {
+    cache.contributions.set(source.id, { signature: sourceSignature(source), channel: source.channel, re, im });
+  }
+}
+
+// Snapshot the running sums of the current sources' channels as a standalone SoundField
+export function readFieldCache(cache: FieldCache, sources: FieldSource[]): SoundField {
+  const channels = getSourceChannels(sources);
+  const field = allocateSoundField(cache.grid!, sources.length, channels);
+  channels.forEach(channel => {
+    const sum = getChannelSum(cache, channel);
+    const target = field.channels.find(c => c.channel === channel);
+    if (target) {
+      target.re.set(sum.re);
+      target.im.set(sum.im);
+    }
+    for (let i = 0; i < sum.re.length; i++) {
+      field.re[i] += sum.re[i];
+      field.im[i] += sum.im[i];
+    }
+  });
+  updateFieldMagnitude(field, 0, field.grid.rows);
+  return field;
+}
+
+// Sum of a subset of the cached contributions (e.g. the main PA for the crossover view).
+// Null when per-source grids aren't retained.
+export function readPartialSum(cache: FieldCache, ids: Set<string>): { re: Float32Array; im: Float32Array } | null {
+  if (!cache.retain) return null;
+  const size = cache.grid ? cache.grid.cols * cache.grid.rows : 0;
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  cache.contributions.forEach((c, id) => {
+    if (!ids.has(id)) return;
+    for (let i = 0; i < size; i++) {
+      re[i] += c.re[i];
+      im[i] += c.im[i];
+    }
+  });
+  return { re, im };
+}
@@ -0,0 +1,178 @@
+import { SoundField, BandField, SimulationSettings, ViewMode } from '../types';
+import { dbToLinear, getHeatmapColor, getPhaseColor } from './physics';
+
+// Background color #0f172a, used where the field is empty or too quiet to show phase
+const BACKGROUND: [number, number, number] = [15, 23, 42];
+
+// Crossover view: sub / main-PA phase offset is only shown where the weaker part is within this
+// many dB of the stronger, i.e. where their sum is actually decided by the phase between them
+export const CROSSOVER_WINDOW_DB = 10;
+
+// Mono-compatibility view: L/R fed the same signal vs. uncorrelated, shown from MONO_MIN_DB
+// (cancellation) to MONO_MAX_DB (two equal coherent arrivals, the centre of a power alley)
+export const MONO_MIN_DB = -12;
+export const MONO_MAX_DB = 3;
+
+// Pressure at the top of the color scale and the dB span below it
+export interface LevelRange {
+  top: number;
+  range: number;
+}
+
+// Relative mode follows the loudest sample; absolute mode is pinned to the user's dB SPL window.
+// Field pressures are already in SPL units (20 µPa reference folded into the model sensitivity).
+export function getLevelRange(settings: SimulationSettings, maxPressure: number): LevelRange {
+  const { levelScale } = settings;
+  if (!levelScale.absolute) return { top: maxPressure, range: settings.dynamicRange };
+  return { top: dbToLinear(levelScale.maxSpl), range: Math.max(1, levelScale.maxSpl - levelScale.minSpl) };
+}
+
+// Heatmap color for a pressure shown relative to the top of the scale
+function levelColor(p: number, { top, range }: LevelRange): [number, number, number] {
+  let intensity = 0;
+  if (p > 0 && top > 0) {
+    const dbRelative = 20 * Math.log10(p / top);
+    intensity = (dbRelative + range) / range;
+  }
+  return getHeatmapColor(intensity);
+}
+
+// Labels for the ends of the color scale
+export function getLevelLegend(settings: SimulationSettings, viewMode: ViewMode): { min: number; max: number; unit: string } {
+  const { levelScale, band } = settings;
+  if (!levelScale.absolute) return { min: -settings.dynamicRange, max: 0, unit: 'dB re max' };
+  const unit = viewMode === 'Band' && band.weighting !== 'Z' ? `dB(${band.weighting})` : 'dB SPL';
+  return { min: levelScale.minSpl, max: levelScale.maxSpl, unit };
+}
+
+// CSS gradient matching getHeatmapColor, bottom of the scale on the left
+export function getHeatmapGradient(): string {
+  const stops = [0, 0.2, 0.4, 0.6, 0.8, 1].map(v => {
+    const [r, g, b] = getHeatmapColor(v);
+    return `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}) ${v * 100}%`;
+  });
+  return `linear-gradient(to right, ${stops.join(', ')})`;
+}
+
+// Sub / main-PA phase offset, 0 (full summation, green) to pi (cancellation, red)
+const CROSSOVER_STOPS: [number, number, number][] = [[34, 197, 94], [234, 179, 8], [239, 68, 68]];
+
+function getCrossoverColor(offset: number): [number, number, number] {
+  const t = Math.min(1, Math.abs(offset) / Math.PI) * (CROSSOVER_STOPS.length - 1);
+  const i = Math.min(CROSSOVER_STOPS.length - 2, Math.floor(t));
+  const f = t - i;
+  const [a, b] = [CROSSOVER_STOPS[i], CROSSOVER_STOPS[i + 1]];
+  return [a[0] + f * (b[0] - a[0]), a[1] + f * (b[1] - a[1]), a[2] + f * (b[2] - a[2])];
+}
+
+// CSS gradient matching getCrossoverColor, 0° on the left
+export function getCrossoverGradient(): string {
+  return `linear-gradient(to right, ${CROSSOVER_STOPS.map(([r, g, b]) => `rgb(${r}, ${g}, ${b})`).join(', ')})`;
+}
+
+// Coherent-minus-power L/R level difference: blue for cancellation, near white at 0 dB, red for gain
+const MONO_STOPS: [number, number, number][] = [[37, 99, 235], [226, 232, 240], [220, 38, 38]];
+const MONO_ZERO = -MONO_MIN_DB / (MONO_MAX_DB - MONO_MIN_DB); // position of 0 dB on the scale
+
+function getMonoColor(db: number): [number, number, number] {
+  const [low, mid, high] = MONO_STOPS;
+  const [a, b, f] = db < 0
+    ? [low, mid, 1 - Math.min(1, db / MONO_MIN_DB)]
+    : [mid, high, Math.min(1, db / MONO_MAX_DB)];
+  return [a[0] + f * (b[0] - a[0]), a[1] + f * (b[1] - a[1]), a[2] + f * (b[2] - a[2])];
+}
+
+// CSS gradient matching getMonoColor, MONO_MIN_DB on the left
+export function getMonoGradient(): string {
+  const [low, mid, high] = MONO_STOPS.map(([r, g, b]) => `rgb(${r}, ${g}, ${b})`);
+  return `linear-gradient(to right, ${low} 0%, ${mid} ${MONO_ZERO * 100}%, ${high} 100%)`;
+}
+
+// Level as a dim grey, for crossover-view samples where one part dominates
+function greyLevel(p: number, { top, range }: LevelRange): [number, number, number] {
+  const intensity = p > 0 && top > 0 ? Math.max(0, Math.min(1, (20 * Math.log10(p / top) + range) / range)) : 0;
+  const v = 30 + 60 * intensity;
+  return [v, v, v + 10];
+}
+
+function setPixel(data: Uint8ClampedArray, i: number, [r, g, b]: [number, number, number]) {
+  const idx = i * 4;
+  data[idx] = r;
+  data[idx + 1] = g;
+  data[idx + 2] = b;
+  data[idx + 3] = 255;
+}
+
+// Color a computed field into an RGBA image with one pixel per grid sample.
+// SPL follows the settings' level scale; phase is hidden more than dynamicRange below the loudest sample.
+// Crossover colors the sub / main-PA phase offset where both contribute (needs field.mainRe / mainIm)
+// and shows the level in grey elsewhere. Mono shows how much louder (power alley) or quieter (comb
+// cancellation) the field gets when the L and R channels carry the same signal instead of uncorrelated
+// ones; it is grey without both an L and an R source.
+export function renderFieldImage(field: SoundField, viewMode: ViewMode, settings: SimulationSettings): ImageData {
+  const { cols, rows } = field.grid;
+  const image = new ImageData(cols, rows);
+  const maxPressure = field.maxMagnitude;
+  const minPressure = maxPressure * dbToLinear(-settings.dynamicRange);
+  const levels = getLevelRange(settings, maxPressure);
+  const crossoverWindow = dbToLinear(-CROSSOVER_WINDOW_DB);
+  const left = field.channels.find(c => c.channel === 'L');
+  const right = field.channels.find(c => c.channel === 'R');
+
+  for (let i = 0; i < field.mag.length; i++) {
+    const p = field.mag[i];
+    let color = BACKGROUND;
+
+    if (field.sourceCount > 0) {
+      if (viewMode === 'Crossover') {
+        color = greyLevel(p, levels);
+        if (field.mainRe && field.mainIm && p > minPressure) {
+          const mainRe = field.mainRe[i];
+          const mainIm = field.mainIm[i];
+          const subRe = field.re[i] - mainRe;
+          const subIm = field.im[i] - mainIm;
+          const main = Math.sqrt(mainRe * mainRe + mainIm * mainIm);
+          const sub = Math.sqrt(subRe * subRe + subIm * subIm);
+          if (Math.min(main, sub) > Math.max(main, sub) * crossoverWindow) {
+            // arg(sub * conj(main))
+            color = getCrossoverColor(Math.atan2(subIm * mainRe - subRe * mainIm, subRe * mainRe + subIm * mainIm));
+          }
+        }
+      } else if (viewMode === 'Mono') {
+        color = greyLevel(p, levels);
+        if (left && right && p > minPressure) {
+          const sumRe = left.re[i] + right.re[i];
+          const sumIm = left.im[i] + right.im[i];
+          const separate = left.re[i] ** 2 + left.im[i] ** 2 + right.re[i] ** 2 + right.im[i] ** 2;
+          // Other channels stay uncorrelated either way
+          const mono = p * p - separate + sumRe * sumRe + sumIm * sumIm;
+          color = getMonoColor(10 * Math.log10(Math.max(mono, 1e-12) / (p * p)));
+        }
+      } else if (viewMode !== 'Phase') {
+        color = levelColor(p, levels);
+      } else if (p > minPressure) {
+        // Only show phase if magnitude is significant enough
+        color = getPhaseColor(Math.atan2(field.im[i], field.re[i]));
+      }
+    }
+
+    setPixel(image.data, i, color);
+  }
+
+  return image;
+}
+
+// Color a band result. In relative mode both statistics are shown against the loudest band-average
+// sample, so the worst-case map reads as "how far below the best spot does this point dip".
+export function renderBandImage(band: BandField, settings: SimulationSettings): ImageData {
+  const { cols, rows } = band.grid;
+  const image = new ImageData(cols, rows);
+  const values = settings.band.statistic === 'worst' ? band.worst : band.average;
+  const levels = getLevelRange(settings, band.maxAverage);
+
+  for (let i = 0; i < values.length; i++) {
+    setPixel(image.data, i, band.sourceCount > 0 ? levelColor(values[i], levels) : BACKGROUND);
+  }
+
+  return image;
+}
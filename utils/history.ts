@@ -0,0 +1,35 @@
+// Snapshot undo/redo stacks. Snapshots are immutable state objects, so keeping one per step is cheap.
+
+export interface History<T> {
+  past: T[]; // oldest first
+  future: T[]; // next redo first
+}
+
+// Steps kept before the oldest are dropped
+export const HISTORY_LIMIT = 100;
+
+export function createHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+// Record the state as it was before an edit. Any redo steps are discarded.
+export function pushHistory<T>(history: History<T>, snapshot: T): History<T> {
+  return { past: [...history.past, snapshot].slice(-HISTORY_LIMIT), future: [] };
+}
+
+// Step back: returns the state to restore, with the current state moved onto the redo stack
+export function undoHistory<T>(history: History<T>, current: T): { history: History<T>; snapshot: T } | null {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    snapshot: history.past[history.past.length - 1]
+  };
+}
+
+export function redoHistory<T>(history: History<T>, current: T): { history: History<T>; snapshot: T } | null {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current].slice(-HISTORY_LIMIT), future: history.future.slice(1) },
+    snapshot: history.future[0]
+  };
+}
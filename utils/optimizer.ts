@@ -0,0 +1,292 @@
+import { Speaker, Group, SimulationSettings, OptimizerRegion, Position3D } from '../types';
+import { buildFieldSources, computePressureAt, getActiveSpeakers, getLogFrequencies, getSourceChannels, getWavenumber } from './physics';
+
+// Delay / gain / polarity optimizer for coverage goals.
+// Each speaker's transfer to a set of sample points in the regions is computed once per frequency
+// with its own gain, delay and polarity removed. Those three then only scale and rotate that transfer,
+// so a candidate change costs one pass over frequencies x points instead of a field computation.
+// Totals are kept per signal channel and summed in power, like the field.
+
+export interface OptimizerOptions {
+  minFrequency: number; // Hz
+  maxFrequency: number; // Hz
+  maxDelay: number; // ms, delays stay within [0, maxDelay]
+  minGain: number; // dB
+  maxGain: number; // dB
+  allowPolarity: boolean;
+}
+
+export interface OptimizerMetrics {
+  maximizeLevel: number | null; // mean band level over the maximize regions, dB SPL
+  minimizeLevel: number | null; // mean band level over the minimize regions, dB SPL
+  spread: number | null; // standard deviation of the level across the maximize regions, dB
+  score: number; // what the optimizer maximizes
+}
+
+export interface SpeakerChange {
+  id: string;
+  gain: number;
+  delay: number;
+  polarity: boolean;
+}
+
+export interface OptimizerProposal {
+  changes: SpeakerChange[];
+  before: OptimizerMetrics;
+  after: OptimizerMetrics;
+}
+
+// Sample points per region (at most)
+const POINTS_PER_REGION = 100;
+// Band resolution for the objective
+const POINTS_PER_OCTAVE = 6;
+// How much unevenness across the maximize regions costs, per dB of standard deviation
+const SPREAD_WEIGHT = 0.5;
+// Delays tried per speaker in the initial coarse sweep
+const DELAY_SWEEP_STEPS = 24;
+const MAX_PASSES = 80;
+const MIN_DELAY_STEP = 0.02; // ms
+const MIN_GAIN_STEP = 0.1; // dB
+
+// Cell-centre lattice over a region on the listening plane
+export function sampleRegion(region: OptimizerRegion, z: number): Position3D[] {
+  const step = Math.max(0.1, Math.sqrt((region.width * region.depth) / POINTS_PER_REGION));
+  const cols = Math.max(1, Math.round(region.width / step));
+  const rows = Math.max(1, Math.round(region.depth / step));
+  const points: Position3D[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      points.push({
+        x: region.x - region.width / 2 + ((c + 0.5) * region.width) / cols,
+        y: region.y - region.depth / 2 + ((r + 0.5) * region.depth) / rows,
+        z
+      });
+    }
+  }
+  return points;
+}
+
+interface Problem {
+  frequencies: number[];
+  pointCount: number;
+  isMaximize: boolean[]; // per point
+  transfer: { re: Float64Array; im: Float64Array }[]; // per target speaker, [f * pointCount + p]
+  channelCount: number;
+  targetChannels: number[]; // channel index per target speaker
+  backgroundRe: Float64Array; // speakers that are not being optimized, [c * size + f * pointCount + p]
+  backgroundIm: Float64Array;
+}
+
+// Complex drive factor of gain/delay/polarity at a frequency
+function driveFactor(change: SpeakerChange, frequency: number): { re: number; im: number } {
+  const amp = Math.pow(10, change.gain / 20) * (change.polarity ? -1 : 1);
+  const phase = -2 * Math.PI * frequency * (change.delay / 1000);
+  return { re: amp * Math.cos(phase), im: amp * Math.sin(phase) };
+}
+
+function evaluate(problem: Problem, totalRe: Float64Array, totalIm: Float64Array): OptimizerMetrics {
+  const { frequencies, pointCount, isMaximize, channelCount } = problem;
+  const size = frequencies.length * pointCount;
+  const maxLevels: number[] = [];
+  const minLevels: number[] = [];
+  for (let p = 0; p < pointCount; p++) {
+    let power = 0;
+    for (let c = 0; c < channelCount; c++) {
+      for (let f = 0; f < frequencies.length; f++) {
+        const i = c * size + f * pointCount + p;
+        power += totalRe[i] * totalRe[i] + totalIm[i] * totalIm[i];
+      }
+    }
+    const level = 10 * Math.log10(Math.max(power / frequencies.length, 1e-12));
+    (isMaximize[p] ? maxLevels : minLevels).push(level);
+  }
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const maximizeLevel = maxLevels.length > 0 ? mean(maxLevels) : null;
+  const minimizeLevel = minLevels.length > 0 ? mean(minLevels) : null;
+  const spread = maximizeLevel !== null
+    ? Math.sqrt(mean(maxLevels.map(l => (l - maximizeLevel) ** 2)))
+    : null;
+
+  const score = (maximizeLevel ?? 0) - (minimizeLevel ?? 0) - SPREAD_WEIGHT * (spread ?? 0);
+  return { maximizeLevel, minimizeLevel, spread, score };
+}
+
+function buildProblem(
+  speakers: Speaker[],
+  groups: Group[],
+  settings: SimulationSettings,
+  regions: OptimizerRegion[],
+  targets: Speaker[],
+  options: OptimizerOptions
+): Problem {
+  const frequencies = getLogFrequencies(options.minFrequency, options.maxFrequency, POINTS_PER_OCTAVE);
+  const isMaximize: boolean[] = [];
+  const points: Position3D[] = [];
+  regions.forEach(region => {
+    sampleRegion(region, settings.listenerHeight).forEach(p => {
+      points.push(p);
+      isMaximize.push(region.kind === 'maximize');
+    });
+  });
+
+  const targetIds = new Set(targets.map(s => s.id));
+  const background = getActiveSpeakers(speakers, groups).filter(s => !targetIds.has(s.id));
+  const channels = getSourceChannels([...background, ...targets]);
+
+  const size = frequencies.length * points.length;
+  const transfer = targets.map(() => ({ re: new Float64Array(size), im: new Float64Array(size) }));
+  const backgroundRe = new Float64Array(channels.length * size);
+  const backgroundIm = new Float64Array(channels.length * size);
+  // Targets with their own drive removed; groups still contribute, without their mute/solo state
+  const bareTargets = targets.map(s => ({ ...s, gain: 0, delay: 0, polarity: false, mute: false, solo: false }));
+  const openGroups = groups.map(g => ({ ...g, mute: false, solo: false }));
+
+  frequencies.forEach((frequency, f) => {
+    const bandSettings = { ...settings, frequency };
+    const k = getWavenumber(bandSettings);
+    const backgroundSources = channels.map(channel =>
+      buildFieldSources(background.filter(s => s.channel === channel), groups, bandSettings));
+    const targetSources = bareTargets.map(s => buildFieldSources([s], openGroups, bandSettings));
+
+    points.forEach((point, p) => {
+      const i = f * points.length + p;
+      backgroundSources.forEach((sources, c) => {
+        const b = computePressureAt(sources, k, point.x, point.y, point.z);
+        backgroundRe[c * size + i] = b.re;
+        backgroundIm[c * size + i] = b.im;
+      });
+      targetSources.forEach((sources, t) => {
+        const h = computePressureAt(sources, k, point.x, point.y, point.z);
+        transfer[t].re[i] = h.re;
+        transfer[t].im[i] = h.im;
+      });
+    });
+  });
+
+  return {
+    frequencies,
+    pointCount: points.length,
+    isMaximize,
+    transfer,
+    channelCount: channels.length,
+    targetChannels: targets.map(s => channels.indexOf(s.channel)),
+    backgroundRe,
+    backgroundIm
+  };
+}
+
+// Add (sign 1) or remove (sign -1) one speaker's contribution to the running total
+function accumulate(problem: Problem, t: number, change: SpeakerChange, sign: number, re: Float64Array, im: Float64Array) {
+  const { frequencies, pointCount, transfer } = problem;
+  const offset = problem.targetChannels[t] * frequencies.length * pointCount;
+  frequencies.forEach((frequency, f) => {
+    const d = driveFactor(change, frequency);
+    const dRe = sign * d.re;
+    const dIm = sign * d.im;
+    for (let p = 0; p < pointCount; p++) {
+      const i = f * pointCount + p;
+      const hRe = transfer[t].re[i];
+      const hIm = transfer[t].im[i];
+      re[offset + i] += hRe * dRe - hIm * dIm;
+      im[offset + i] += hRe * dIm + hIm * dRe;
+    }
+  });
+}
+
+// Search for gains, delays and polarities of the target speakers that best meet the region goals.
+// Coarse delay sweep per speaker, then coordinate descent with shrinking steps.
+export function optimizeSpeakers(
+  speakers: Speaker[],
+  groups: Group[],
+  settings: SimulationSettings,
+  regions: OptimizerRegion[],
+  targetIds: string[],
+  options: OptimizerOptions
+): OptimizerProposal {
+  const targets = speakers.filter(s => targetIds.includes(s.id));
+  const problem = buildProblem(speakers, groups, settings, regions, targets, options);
+
+  const clampChange = (c: SpeakerChange): SpeakerChange => ({
+    ...c,
+    gain: Math.min(options.maxGain, Math.max(options.minGain, c.gain)),
+    delay: Math.min(options.maxDelay, Math.max(0, c.delay))
+  });
+
+  const current: SpeakerChange[] = targets.map(s => clampChange({ id: s.id, gain: s.gain, delay: s.delay, polarity: s.polarity }));
+  const totalRe = Float64Array.from(problem.backgroundRe);
+  const totalIm = Float64Array.from(problem.backgroundIm);
+  current.forEach((c, t) => accumulate(problem, t, c, 1, totalRe, totalIm));
+
+  // Metrics of the design as it is now (before clamping to the limits)
+  const beforeRe = Float64Array.from(problem.backgroundRe);
+  const beforeIm = Float64Array.from(problem.backgroundIm);
+  targets.forEach((s, t) => accumulate(problem, t, { id: s.id, gain: s.gain, delay: s.delay, polarity: s.polarity }, 1, beforeRe, beforeIm));
+  const before = evaluate(problem, beforeRe, beforeIm);
+
+  let best = evaluate(problem, totalRe, totalIm);
+  const scratchRe = new Float64Array(totalRe.length);
+  const scratchIm = new Float64Array(totalIm.length);
+
+  // Try replacing speaker t's settings; keep the change if the score improves
+  const tryChange = (t: number, candidate: SpeakerChange): boolean => {
+    const next = clampChange(candidate);
+    scratchRe.set(totalRe);
+    scratchIm.set(totalIm);
+    accumulate(problem, t, current[t], -1, scratchRe, scratchIm);
+    accumulate(problem, t, next, 1, scratchRe, scratchIm);
+    const metrics = evaluate(problem, scratchRe, scratchIm);
+    if (metrics.score <= best.score + 1e-6) return false;
+    totalRe.set(scratchRe);
+    totalIm.set(scratchIm);
+    current[t] = next;
+    best = metrics;
+    return true;
+  };
+
+  if (options.maxDelay > 0) {
+    current.forEach((_, t) => {
+      for (let i = 0; i <= DELAY_SWEEP_STEPS; i++) {
+        tryChange(t, { ...current[t], delay: (options.maxDelay * i) / DELAY_SWEEP_STEPS });
+      }
+    });
+  }
+
+  // A quarter period at the band centre is a sensible first delay step
+  const centre = Math.sqrt(options.minFrequency * options.maxFrequency);
+  let delayStep = Math.min(options.maxDelay / 4, 250 / centre);
+  let gainStep = Math.min(3, (options.maxGain - options.minGain) / 4);
+
+  for (let pass = 0; pass < MAX_PASSES && (delayStep >= MIN_DELAY_STEP || gainStep >= MIN_GAIN_STEP); pass++) {
+    let improved = false;
+    current.forEach((_, t) => {
+      if (delayStep >= MIN_DELAY_STEP) {
+        improved = tryChange(t, { ...current[t], delay: current[t].delay + delayStep }) || improved;
+        improved = tryChange(t, { ...current[t], delay: current[t].delay - delayStep }) || improved;
+      }
+      if (gainStep >= MIN_GAIN_STEP) {
+        improved = tryChange(t, { ...current[t], gain: current[t].gain + gainStep }) || improved;
+        improved = tryChange(t, { ...current[t], gain: current[t].gain - gainStep }) || improved;
+      }
+      if (options.allowPolarity) {
+        improved = tryChange(t, { ...current[t], polarity: !current[t].polarity }) || improved;
+      }
+    });
+    if (!improved) {
+      delayStep /= 2;
+      gainStep /= 2;
+    }
+  }
+
+  // Rounded to what the sliders can show, then re-scored so the reported metrics match what gets applied
+  const changes = current.map(c => ({
+    ...c,
+    gain: Math.round(c.gain * 10) / 10,
+    delay: Math.round(c.delay * 100) / 100
+  }));
+  const afterRe = Float64Array.from(problem.backgroundRe);
+  const afterIm = Float64Array.from(problem.backgroundIm);
+  changes.forEach((c, t) => accumulate(problem, t, c, 1, afterRe, afterIm));
+
+  return { changes, before, after: evaluate(problem, afterRe, afterIm) };
+}
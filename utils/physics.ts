@@ -1,4 +1,7 @@
-import { Speaker, Complex } from '../types';
+import { Speaker, Group, Complex, SimulationSettings, FieldGrid, FieldPlane, SoundField, Position3D, SignalChannel, ChannelField } from '../types';
+import { ImageSource, getImageSources } from './reflections';
+import { getModelPattern, getModelResponse, getSpeakerModel } from './speakerModels';
+import { getSpeakerFilterResponse } from './dsp';
 
 export const SPEED_OF_SOUND_20C = 343; // m/s
 
@@ -14,6 +17,21 @@ export function linearToDb(linear: number): number {
   return 20 * Math.log10(linear);
 }
 
+// Log-spaced frequencies from fMin up to fMax at the given number of points per octave
+export function getLogFrequencies(fMin: number, fMax: number, pointsPerOctave: number): number[] {
+  const lo = Math.max(1, Math.min(fMin, fMax));
+  const hi = Math.max(fMin, fMax);
+  const frequencies: number[] = [];
+
+  for (let n = 0; ; n++) {
+    const f = lo * Math.pow(2, n / pointsPerOctave);
+    if (f > hi * (1 + 1e-9)) break;
+    frequencies.push(f);
+  }
+
+  return frequencies;
+}
+
 // Map a normalized value (0-1) to a heatmap color (Black -> Blue -> Cyan -> Green -> Yellow -> Red -> White)
 export function getHeatmapColor(value: number): [number, number, number] {
   // Clamp value
@@ -85,49 +103,355 @@ export function getPhaseColor(radians: number): [number, number, number] {
   return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
 }
 
-export function computeSoundField(
-  width: number,
-  height: number,
-  resolution: number, // pixels per meter factor (actually calculation grid size relative to canvas)
-  speakers: Speaker[],
-  frequency: number,
-  speedOfSound: number
-): Float32Array {
-  // We compute on a grid.
-  // width/height are in canvas pixels.
-  // To keep it performant, we might downscale the calculation grid compared to the display canvas.
-  
-  const buffer = new Float32Array(width * height);
-  const k = (2 * Math.PI * frequency) / speedOfSound;
-  
-  // Pre-calculate speaker properties to avoid repeating inside the loop
-  const activeSpeakers = speakers.filter(s => !s.mute && (!speakers.some(sp => sp.solo) || s.solo));
+export const SIGNAL_CHANNELS: { id: SignalChannel; name: string }[] = [
+  { id: 'mono', name: 'Mono' },
+  { id: 'L', name: 'Left' },
+  { id: 'R', name: 'Right' },
+  { id: 'aux', name: 'Aux' }
+];
+
+// Channels that at least one source is fed from, in SIGNAL_CHANNELS order
+export function getSourceChannels(sources: { channel: SignalChannel }[]): SignalChannel[] {
+  return SIGNAL_CHANNELS.map(c => c.id).filter(id => sources.some(s => s.channel === id));
+}
+
+// Resolve mute/solo state for speakers and their groups.
+// If ANY speaker or ANY group is soloed, only soloed speakers (or members of soloed groups) are active.
+export function getActiveSpeakers(speakers: Speaker[], groups: Group[]): Speaker[] {
+  const isSoloActive = speakers.some(s => s.solo) || groups.some(g => g.solo);
+
+  return speakers.filter(s => {
+    const group = groups.find(g => g.id === s.groupId);
+    const effectivelyMuted = s.mute || (group?.mute ?? false);
+
+    if (effectivelyMuted) return false;
+    if (isSoloActive) return s.solo || (group?.solo ?? false);
+    return true;
+  });
+}
+
+// Gain, delay and polarity a speaker is actually driven with: its own plus its group's processing
+export interface SpeakerDrive {
+  gain: number; // dB
+  delay: number; // ms
+  polarity: boolean;
+}
+
+export function getEffectiveDrive(speaker: Speaker, groups: Group[]): SpeakerDrive {
+  const group = groups.find(g => g.id === speaker.groupId);
+  if (!group) return { gain: speaker.gain, delay: speaker.delay, polarity: speaker.polarity };
+  return {
+    gain: speaker.gain + group.gain,
+    delay: speaker.delay + group.delay,
+    polarity: speaker.polarity !== group.polarity
+  };
+}
 
-  if (activeSpeakers.length === 0) return buffer.fill(-Infinity);
+// A point source reduced to what the summation loop needs
+export interface FieldSource {
+  id: string; // speaker id
+  channel: SignalChannel;
+  x: number; // meters
+  y: number; // meters
+  z: number; // meters
+  amp: number; // linear on-axis pressure at 1 m (gain, model sensitivity and response, DSP)
+  phaseOffset: number; // radians (delay, polarity, model and DSP phase)
+  pattern: number; // first-order directivity factor, 0 = omni
+  aimX: number; // unit vector of the on-axis direction
+  aimY: number;
+  images: ImageSource[]; // boundary reflections, share the source's phase offset
+}
+
+export function buildFieldSources(speakers: Speaker[], groups: Group[], settings: SimulationSettings): FieldSource[] {
+  const { frequency } = settings;
+  return getActiveSpeakers(speakers, groups).map(s => {
+    const drive = getEffectiveDrive(s, groups);
 
-  const sources = activeSpeakers.map(s => {
     // Convert delay to phase shift (radians)
-    // Delay (ms) -> Seconds: d/1000
     // Phase = -omega * t = -2*pi*f * (d/1000)
     // Add polarity inversion (pi radians) if needed
-    let phaseOffset = -(2 * Math.PI * frequency * (s.delay / 1000));
-    if (s.polarity) phaseOffset += Math.PI;
+    let phaseOffset = -(2 * Math.PI * frequency * (drive.delay / 1000));
+    if (drive.polarity) phaseOffset += Math.PI;
+
+    // The model contributes sensitivity, response and directivity at this frequency
+    const model = getSpeakerModel(s.modelId);
+    const response = getModelResponse(model, frequency);
+    phaseOffset += (response.phase * Math.PI) / 180;
 
-    const amp = dbToLinear(s.gain);
+    // Group and speaker DSP chains
+    const filter = getSpeakerFilterResponse(s, groups, frequency);
+    phaseOffset += Math.atan2(filter.im, filter.re);
 
     return {
-      x: s.x, // These are in meters
-      y: s.y, // These are in meters
-      amp,
-      phaseOffset
+      id: s.id,
+      channel: s.channel,
+      x: s.x,
+      y: s.y,
+      z: s.z,
+      amp: dbToLinear(drive.gain + model.sensitivity + response.magnitude) * Math.sqrt(filter.re * filter.re + filter.im * filter.im),
+      phaseOffset,
+      pattern: getModelPattern(model, frequency),
+      aimX: Math.sin((s.rotation * Math.PI) / 180),
+      aimY: Math.cos((s.rotation * Math.PI) / 180),
+      images: getImageSources(s.x, s.y, s.z, settings)
     };
   });
+}
 
-  // Meters per pixel (assuming canvas width maps to venueWidth)
-  // But wait, the component handles the transform. 
-  // Let's assume the function receives coordinates in "pixels" that need to be mapped to meters?
-  // No, easier if we pass the meter-per-pixel ratio.
-  // Actually, let's just loop through pixels and convert to meters inside.
-  
-  return buffer;
-}
\ No newline at end of file
+// Wavenumber k = omega / c
+export function getWavenumber(settings: SimulationSettings): number {
+  return (2 * Math.PI * settings.frequency) / calculateSpeedOfSound(settings.temperature);
+}
+
+// Minimum source distance, avoids the 1/r singularity at the source position
+const MIN_DISTANCE = 0.1; // meters
+
+interface Radiator extends Position3D {
+  amp: number;
+  aimX: number;
+  aimY: number;
+}
+
+// Direct sound plus image sources as plain radiating points.
+// Images radiate mirrored: their aim flips along every axis with an odd number of reflections.
+function sourceRadiators(source: FieldSource): Radiator[] {
+  return [
+    { x: source.x, y: source.y, z: source.z, amp: source.amp, aimX: source.aimX, aimY: source.aimY },
+    ...source.images.map(img => ({
+      x: img.x,
+      y: img.y,
+      z: img.z,
+      amp: source.amp * img.gain,
+      aimX: img.flipX ? -source.aimX : source.aimX,
+      aimY: img.flipY ? -source.aimY : source.aimY
+    }))
+  ];
+}
+
+// First-order directivity gain for a given cosine of the off-axis angle (signed: rear lobes invert)
+const directivityGain = (pattern: number, cosAngle: number) => 1 - pattern + pattern * cosAngle;
+
+// Complex pressure of a single source (including its reflections) at a point
+export function sourcePressureAt(source: FieldSource, k: number, x: number, y: number, z: number): Complex {
+  let re = 0;
+  let im = 0;
+  for (const p of sourceRadiators(source)) {
+    const dx = x - p.x;
+    const dy = y - p.y;
+    const dz = z - p.z;
+    const r = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    const cosAngle = r > 0 ? (dx * p.aimX + dy * p.aimY) / r : 1;
+    const mag = (p.amp * directivityGain(source.pattern, cosAngle)) / Math.max(r, MIN_DISTANCE);
+    const phase = -k * r + source.phaseOffset;
+    re += mag * Math.cos(phase);
+    im += mag * Math.sin(phase);
+  }
+  return { re, im };
+}
+
+// Coherent sum of all sources at a single point, regardless of channel
+export function computePressureAt(sources: FieldSource[], k: number, x: number, y: number, z: number): Complex {
+  let re = 0;
+  let im = 0;
+  for (const s of sources) {
+    const p = sourcePressureAt(s, k, x, y, z);
+    re += p.re;
+    im += p.im;
+  }
+  return { re, im };
+}
+
+// Pressure level at a single point: coherent within each channel, power sum across channels
+export function computeLevelAt(sources: FieldSource[], k: number, x: number, y: number, z: number): number {
+  let power = 0;
+  for (const channel of getSourceChannels(sources)) {
+    const p = computePressureAt(sources.filter(s => s.channel === channel), k, x, y, z);
+    power += p.re * p.re + p.im * p.im;
+  }
+  return Math.sqrt(power);
+}
+
+// Calculation grid resolution range (points per meter) offered to the user
+export const MIN_RESOLUTION = 1;
+export const MAX_RESOLUTION = 40;
+
+// Upper bound on grid samples, whatever the venue size and resolution (~1000 x 1000)
+const MAX_GRID_CELLS = 1_000_000;
+
+// Calculation grid sampled at settings.resolution points per meter (at most MAX_RESOLUTION).
+// The step is widened further if the grid would exceed MAX_GRID_CELLS.
+// plan covers the venue floor area on the listening plane; section is the vertical cut at x = sectionX.
+export function createFieldGrid(settings: SimulationSettings, plane: FieldPlane = 'plan', sectionX = 0): FieldGrid {
+  const width = plane === 'section' ? settings.venueDepth : settings.venueWidth;
+  const height = plane === 'section' ? settings.venueHeight : settings.venueDepth;
+  const step = Math.max(
+    1 / Math.min(Math.max(settings.resolution, 0.01), MAX_RESOLUTION),
+    Math.sqrt((Math.max(width, 0) * Math.max(height, 0)) / MAX_GRID_CELLS)
+  );
+
+  if (plane === 'section') {
+    return {
+      plane,
+      offset: sectionX,
+      u0: -settings.venueDepth / 2,
+      v0: -settings.venueHeight,
+      step,
+      cols: Math.max(1, Math.round(settings.venueDepth / step)),
+      rows: Math.max(1, Math.round(settings.venueHeight / step))
+    };
+  }
+
+  return {
+    plane,
+    offset: settings.listenerHeight,
+    u0: -settings.venueWidth / 2,
+    v0: -settings.venueDepth / 2,
+    step,
+    cols: Math.max(1, Math.round(settings.venueWidth / step)),
+    rows: Math.max(1, Math.round(settings.venueDepth / step))
+  };
+}
+
+// Grid-frame coordinates of the centre of a grid cell
+export function gridCellU(grid: FieldGrid, col: number): number {
+  return grid.u0 + (col + 0.5) * grid.step;
+}
+
+export function gridCellV(grid: FieldGrid, row: number): number {
+  return grid.v0 + (row + 0.5) * grid.step;
+}
+
+// Express a venue point (or direction) in the grid frame: [u, v, w] with w along the grid normal
+function toGridFrame(grid: FieldGrid, p: Position3D): [number, number, number] {
+  return grid.plane === 'plan' ? [p.x, p.y, p.z] : [p.y, -p.z, p.x];
+}
+
+// Venue coordinates of the centre of a grid cell
+export function gridCellPoint(grid: FieldGrid, col: number, row: number): Position3D {
+  const u = gridCellU(grid, col);
+  const v = gridCellV(grid, row);
+  return grid.plane === 'plan' ? { x: u, y: v, z: grid.offset } : { x: grid.offset, y: u, z: -v };
+}
+
+// Zeroed field buffers for a grid. Per-channel buffers are only kept when there is more than one channel.
+export function allocateSoundField(grid: FieldGrid, sourceCount: number, channels: SignalChannel[] = []): SoundField {
+  const size = grid.cols * grid.rows;
+  return {
+    grid,
+    re: new Float32Array(size),
+    im: new Float32Array(size),
+    mag: new Float32Array(size),
+    channels: channels.length > 1
+      ? channels.map(channel => ({ channel, re: new Float32Array(size), im: new Float32Array(size) }))
+      : [],
+    maxMagnitude: 0,
+    sourceCount
+  };
+}
+
+// Zero rows [rowStart, rowEnd) of a field so they can be computed again
+export function clearFieldRows(field: SoundField, rowStart: number, rowEnd: number): void {
+  const start = rowStart * field.grid.cols;
+  const end = Math.min(rowEnd, field.grid.rows) * field.grid.cols;
+  for (const buffer of [field.re, field.im, ...field.channels.flatMap(c => [c.re, c.im])]) {
+    buffer.fill(0, start, end);
+  }
+}
+
+// Add one source's complex contribution to rows [rowStart, rowEnd) of re/im buffers laid out over grid.
+// This is the hot loop; all field evaluation on grids goes through it.
+export function accumulateSourceRows(
+  source: FieldSource,
+  k: number,
+  grid: FieldGrid,
+  re: Float32Array | Float64Array,
+  im: Float32Array | Float64Array,
+  rowStart: number,
+  rowEnd: number
+): void {
+  const { pattern } = source;
+  for (const p of sourceRadiators(source)) {
+    const [pu, pv, pw] = toGridFrame(grid, p);
+    const [au, av, aw] = toGridFrame(grid, { x: p.aimX, y: p.aimY, z: 0 });
+    const dw = grid.offset - pw;
+    for (let row = rowStart; row < Math.min(rowEnd, grid.rows); row++) {
+      const dv = gridCellV(grid, row) - pv;
+      let idx = row * grid.cols;
+      for (let col = 0; col < grid.cols; col++, idx++) {
+        const du = gridCellU(grid, col) - pu;
+        const r = Math.sqrt(du * du + dv * dv + dw * dw);
+        const cosAngle = r > 0 ? (du * au + dv * av + dw * aw) / r : 1;
+        const m = (p.amp * directivityGain(pattern, cosAngle)) / Math.max(r, MIN_DISTANCE);
+        const phase = -k * r + source.phaseOffset;
+        re[idx] += m * Math.cos(phase);
+        im[idx] += m * Math.sin(phase);
+      }
+    }
+  }
+}
+
+// Recompute magnitude (and running max) for rows [rowStart, rowEnd) from re/im,
+// or from the power sum of the channels when there are several
+export function updateFieldMagnitude(field: SoundField, rowStart: number, rowEnd: number): void {
+  const { grid, re, im, mag, channels } = field;
+  let maxMagnitude = field.maxMagnitude;
+  const end = Math.min(rowEnd, grid.rows) * grid.cols;
+
+  for (let idx = rowStart * grid.cols; idx < end; idx++) {
+    let power = 0;
+    if (channels.length > 0) {
+      for (const c of channels) power += c.re[idx] * c.re[idx] + c.im[idx] * c.im[idx];
+    } else {
+      power = re[idx] * re[idx] + im[idx] * im[idx];
+    }
+    const pressure = Math.sqrt(power);
+    mag[idx] = pressure;
+    if (pressure > maxMagnitude) maxMagnitude = pressure;
+  }
+
+  field.maxMagnitude = maxMagnitude;
+}
+
+// Fill rows [rowStart, rowEnd) of a zeroed field with the sum of all sources, per channel if the
+// field has channel buffers. Split out so long computations can be sliced (see workers/fieldWorker.ts).
+export function computeFieldRows(
+  field: SoundField,
+  sources: FieldSource[],
+  k: number,
+  rowStart: number,
+  rowEnd: number
+): void {
+  const { grid, channels } = field;
+  if (channels.length === 0) {
+    for (const s of sources) {
+      accumulateSourceRows(s, k, grid, field.re, field.im, rowStart, rowEnd);
+    }
+  } else {
+    for (const s of sources) {
+      const c = channels.find(c => c.channel === s.channel)!;
+      accumulateSourceRows(s, k, grid, c.re, c.im, rowStart, rowEnd);
+    }
+    const end = Math.min(rowEnd, grid.rows) * grid.cols;
+    for (const c of channels) {
+      for (let idx = rowStart * grid.cols; idx < end; idx++) {
+        field.re[idx] += c.re[idx];
+        field.im[idx] += c.im[idx];
+      }
+    }
+  }
+  updateFieldMagnitude(field, rowStart, rowEnd);
+}
+
+// Headless field engine: complex pressure (re/im) and magnitude on a grid in meters.
+// Everything that displays or reports field values should go through here.
+export function computeSoundField(
+  speakers: Speaker[],
+  groups: Group[],
+  settings: SimulationSettings,
+  grid: FieldGrid = createFieldGrid(settings)
+): SoundField {
+  const sources = buildFieldSources(speakers, groups, settings);
+  const field = allocateSoundField(grid, sources.length, getSourceChannels(sources));
+  computeFieldRows(field, sources, getWavenumber(settings), 0, grid.rows);
+  return field;
+}
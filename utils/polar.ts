@@ -0,0 +1,101 @@
+import { Speaker, Group, SimulationSettings, Position3D } from '../types';
+import { buildFieldSources, computeLevelAt, getActiveSpeakers, getWavenumber } from './physics';
+
+// Array directivity: the summed pressure on a horizontal circle around the array centroid.
+// Angles are measured from +y (towards the audience) towards +x. Front-to-back ratio and beamwidth
+// are taken along the mean aim of the speakers, so a rotated array is measured along its own axis.
+// Evaluated in free field: wall and floor reflections would colour the array's own directivity.
+
+export interface PolarCurve {
+  frequency: number; // Hz
+  angles: number[]; // degrees, 0..360
+  levels: number[]; // dB relative to the loudest angle at this frequency
+  front: number; // degrees, the sampled angle nearest to the array aim
+  frontToBack: number | null; // dB, level at front minus level opposite; null without signal
+  beamwidth: number | null; // degrees of the -6 dB (re on-axis) lobe around the front; null without signal
+}
+
+// Mean position of the active speakers
+export function getArrayCentroid(speakers: Speaker[], groups: Group[]): Position3D {
+  const active = getActiveSpeakers(speakers, groups);
+  if (active.length === 0) return { x: 0, y: 0, z: 0 };
+  return {
+    x: active.reduce((sum, s) => sum + s.x, 0) / active.length,
+    y: active.reduce((sum, s) => sum + s.y, 0) / active.length,
+    z: active.reduce((sum, s) => sum + s.z, 0) / active.length
+  };
+}
+
+// Mean aim of the active speakers in degrees, 0 when their aims cancel out (e.g. a two-box cardioid)
+export function getArrayAim(speakers: Speaker[], groups: Group[]): number {
+  const active = getActiveSpeakers(speakers, groups);
+  const x = active.reduce((sum, s) => sum + Math.sin((s.rotation * Math.PI) / 180), 0);
+  const y = active.reduce((sum, s) => sum + Math.cos((s.rotation * Math.PI) / 180), 0);
+  if (Math.hypot(x, y) < 1e-6 * Math.max(1, active.length)) return 0;
+  const deg = (Math.atan2(x, y) * 180) / Math.PI;
+  return deg < 0 ? deg + 360 : deg;
+}
+
+// Width of the region around the first angle that stays within 6 dB of its level
+function getBeamwidth(angles: number[], levels: number[]): number {
+  const limit = levels[0] - 6;
+  const step = angles[1] - angles[0];
+  const n = levels.length;
+  let width = 0;
+
+  for (let i = 1; i < n / 2 && levels[i] >= limit; i++) width += step;
+  for (let i = n - 1; i > n / 2 && levels[i] >= limit; i--) width += step;
+
+  return Math.min(360, width);
+}
+
+export function computePolarResponse(
+  speakers: Speaker[],
+  groups: Group[],
+  settings: SimulationSettings,
+  radius: number,
+  frequencies: number[],
+  stepDegrees = 2
+): PolarCurve[] {
+  const center = getArrayCentroid(speakers, groups);
+  const freeField: SimulationSettings = {
+    ...settings,
+    boundaries: {
+      left: { ...settings.boundaries.left, enabled: false },
+      right: { ...settings.boundaries.right, enabled: false },
+      back: { ...settings.boundaries.back, enabled: false },
+      front: { ...settings.boundaries.front, enabled: false },
+      floor: { ...settings.boundaries.floor, enabled: false }
+    }
+  };
+  const angles = Array.from({ length: Math.round(360 / stepDegrees) }, (_, i) => i * stepDegrees);
+  const frontIndex = Math.round(getArrayAim(speakers, groups) / stepDegrees) % angles.length;
+  const backIndex = (frontIndex + Math.round(angles.length / 2)) % angles.length;
+
+  return frequencies.map(frequency => {
+    const atFrequency = { ...freeField, frequency };
+    const sources = buildFieldSources(speakers, groups, atFrequency);
+    const k = getWavenumber(atFrequency);
+
+    const magnitudes = angles.map(deg => {
+      const a = (deg * Math.PI) / 180;
+      return computeLevelAt(sources, k, center.x + radius * Math.sin(a), center.y + radius * Math.cos(a), center.z);
+    });
+
+    const max = Math.max(...magnitudes);
+    const levels = magnitudes.map(m => (m > 0 && max > 0 ? 20 * Math.log10(m / max) : -Infinity));
+    // Every source silent at this frequency: there is no pattern to measure
+    const silent = !(max > 0);
+    // Levels starting at the front, for the lobe around it
+    const fromFront = [...levels.slice(frontIndex), ...levels.slice(0, frontIndex)];
+
+    return {
+      frequency,
+      angles,
+      levels,
+      front: angles[frontIndex],
+      frontToBack: silent ? null : levels[frontIndex] - levels[backIndex],
+      beamwidth: silent ? null : getBeamwidth(angles, fromFront)
+    };
+  });
+}
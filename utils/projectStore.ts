@@ -0,0 +1,114 @@
+import { Scene, ProjectSummary } from '../types';
+import { parseScene, serializeScene } from './scene';
+
+// Browser-local project library and autosave slot, kept in IndexedDB.
+// Scenes are stored as scene-file text so loading goes through the same validation and migration as file import.
+
+const DB_NAME = 'lowfreq-sim';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const AUTOSAVE = 'autosave';
+const AUTOSAVE_KEY = 'current';
+
+interface ProjectRecord extends ProjectSummary {
+  data: string; // serialized scene file
+}
+
+interface AutosaveRecord {
+  projectId: string | null;
+  data: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(AUTOSAVE)) db.createObjectStore(AUTOSAVE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+// Run one request in its own transaction and resolve once the transaction has committed
+async function run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const summarize = ({ id, name, updatedAt }: ProjectRecord): ProjectSummary => ({ id, name, updatedAt });
+
+async function getRecord(id: string): Promise<ProjectRecord> {
+  const record = await run<ProjectRecord | undefined>(PROJECTS, 'readonly', store => store.get(id));
+  if (!record) throw new Error('The project no longer exists.');
+  return record;
+}
+
+async function putRecord(record: ProjectRecord): Promise<ProjectSummary> {
+  await run(PROJECTS, 'readwrite', store => store.put(record));
+  return summarize(record);
+}
+
+// Most recently changed first
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const records = await run<ProjectRecord[]>(PROJECTS, 'readonly', store => store.getAll());
+  return records.map(summarize).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function loadProject(id: string): Promise<Scene> {
+  return parseScene((await getRecord(id)).data);
+}
+
+export function saveProject(id: string, name: string, scene: Scene): Promise<ProjectSummary> {
+  return putRecord({ id, name, updatedAt: new Date().toISOString(), data: serializeScene(scene) });
+}
+
+// Store a new scene under an existing project, keeping its name
+export async function updateProject(id: string, scene: Scene): Promise<ProjectSummary> {
+  const record = await getRecord(id);
+  return putRecord({ ...record, updatedAt: new Date().toISOString(), data: serializeScene(scene) });
+}
+
+export async function duplicateProject(id: string, newId: string, name: string): Promise<ProjectSummary> {
+  const record = await getRecord(id);
+  return putRecord({ ...record, id: newId, name, updatedAt: new Date().toISOString() });
+}
+
+export async function renameProject(id: string, name: string): Promise<ProjectSummary> {
+  const record = await getRecord(id);
+  return putRecord({ ...record, name, updatedAt: new Date().toISOString() });
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await run(PROJECTS, 'readwrite', store => store.delete(id));
+}
+
+// The working scene, written continuously so a reload picks up where the user left off
+export async function saveAutosave(scene: Scene, projectId: string | null): Promise<void> {
+  const record: AutosaveRecord = { projectId, data: serializeScene(scene) };
+  await run(AUTOSAVE, 'readwrite', store => store.put(record, AUTOSAVE_KEY));
+}
+
+export async function loadAutosave(): Promise<{ scene: Scene; projectId: string | null } | null> {
+  const record = await run<AutosaveRecord | undefined>(AUTOSAVE, 'readonly', store => store.get(AUTOSAVE_KEY));
+  return record ? { scene: parseScene(record.data), projectId: record.projectId } : null;
+}
@@ -0,0 +1,84 @@
+import { Boundary, SimulationSettings } from '../types';
+
+// Image-source model for the venue rectangle and the ground plane.
+// Walls sit on the venue edges: left/right at x = -/+ venueWidth/2, back/front at
+// y = -/+ venueDepth/2. Each image carries the product of the reflection coefficients
+// of the boundaries its path hits; an image is used only if no boundary is hit more
+// often than that boundary's order allows.
+
+export interface ImageSource {
+  x: number; // meters
+  y: number; // meters
+  z: number; // meters
+  gain: number; // linear factor relative to the direct sound
+  floor: boolean; // true for images mirrored in the ground plane
+  flipX: boolean; // odd number of side-wall reflections: radiation mirrored in x
+  flipY: boolean; // odd number of front/back-wall reflections: radiation mirrored in y
+}
+
+interface AxisImage {
+  pos: number;
+  lowHits: number; // reflections off the wall at -half
+  highHits: number; // reflections off the wall at +half
+}
+
+const effectiveOrder = (b: Boundary) => (b.enabled ? Math.max(0, Math.floor(b.order)) : 0);
+
+// Image positions along one axis for a source at p between walls at -half and +half
+function axisImages(p: number, half: number, lowOrder: number, highOrder: number): AxisImage[] {
+  const L = 2 * half;
+  const u = p + half; // position measured from the low wall
+  const maxN = Math.max(lowOrder, highOrder) + 1;
+  const images: AxisImage[] = [];
+
+  for (let n = -maxN; n <= maxN; n++) {
+    // Even number of reflections: u' = 2nL + u
+    images.push({ pos: 2 * n * L + u - half, lowHits: Math.abs(n), highHits: Math.abs(n) });
+    // Odd number of reflections: u' = 2nL - u
+    images.push(n > 0
+      ? { pos: 2 * n * L - u - half, lowHits: n - 1, highHits: n }
+      : { pos: 2 * n * L - u - half, lowHits: -n + 1, highHits: -n });
+  }
+
+  return images.filter(img => img.lowHits <= lowOrder && img.highHits <= highOrder);
+}
+
+// All image sources of a speaker at (x, y, z), excluding the direct sound
+export function getImageSources(x: number, y: number, z: number, settings: SimulationSettings): ImageSource[] {
+  const { left, right, back, front, floor } = settings.boundaries;
+
+  const xImages = axisImages(x, settings.venueWidth / 2, effectiveOrder(left), effectiveOrder(right));
+  const yImages = axisImages(y, settings.venueDepth / 2, effectiveOrder(back), effectiveOrder(front));
+
+  const wallImages: ImageSource[] = [];
+  for (const xi of xImages) {
+    for (const yi of yImages) {
+      const hits = xi.lowHits + xi.highHits + yi.lowHits + yi.highHits;
+      if (hits === 0) continue; // direct sound
+
+      const gain =
+        Math.pow(left.reflection, xi.lowHits) *
+        Math.pow(right.reflection, xi.highHits) *
+        Math.pow(back.reflection, yi.lowHits) *
+        Math.pow(front.reflection, yi.highHits);
+      wallImages.push({
+        x: xi.pos,
+        y: yi.pos,
+        z,
+        gain,
+        floor: false,
+        flipX: (xi.lowHits + xi.highHits) % 2 === 1,
+        flipY: (yi.lowHits + yi.highHits) % 2 === 1
+      });
+    }
+  }
+
+  // A single plane has no higher orders: every path (direct or via walls) gets at most one floor bounce
+  if (effectiveOrder(floor) === 0) return wallImages;
+
+  // The floor sits at z = 0, so its images are mirrored to -z
+  const floorImages: ImageSource[] = [{ x, y, z: -z, gain: floor.reflection, floor: true, flipX: false, flipY: false }];
+  wallImages.forEach(img => floorImages.push({ ...img, z: -z, gain: img.gain * floor.reflection, floor: true }));
+
+  return [...wallImages, ...floorImages];
+}
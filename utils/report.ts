@@ -0,0 +1,359 @@
+import { Speaker, SpeakerRole, Group, Microphone, SimulationSettings, ViewMode, Position } from '../types';
+import { calculateSpeedOfSound, computeSoundField, getHeatmapColor } from './physics';
+import { computeBandField } from './band';
+import { renderBandImage, renderFieldImage, getLevelLegend } from './heatmap';
+import { getSpeakerModel } from './speakerModels';
+
+// Printable design report: a plan-view figure (heatmap, dB legend, scale bar, speaker overlay)
+// as PNG or SVG, or a self-contained HTML page adding the speaker table and simulation settings.
+
+export interface ReportInput {
+  title: string;
+  speakers: Speaker[];
+  groups: Group[];
+  mics: Microphone[];
+  settings: SimulationSettings;
+  viewMode: ViewMode; // phase is reported as SPL: a report needs a dB scale
+}
+
+// Figure geometry (pixels)
+const FIGURE_WIDTH = 900;
+const MAX_MAP_HEIGHT = 900;
+const MARGIN = 40;
+const TITLE_HEIGHT = 56;
+const FOOTER_HEIGHT = 72;
+const LEGEND_WIDTH = 320;
+const LEGEND_HEIGHT = 12;
+const SPEAKER_RADIUS = 7;
+const DEFAULT_SPEAKER_COLOR = '#3b82f6';
+const DEFAULT_MAIN_COLOR = '#f59e0b';
+
+const SCALE_BAR_LENGTHS = [0.5, 1, 2, 5, 10, 20, 50, 100];
+
+interface FigureLayout {
+  width: number;
+  height: number;
+  mapX: number;
+  mapY: number;
+  mapWidth: number;
+  mapHeight: number;
+  toFigure: (p: Position) => { x: number; y: number };
+}
+
+function getLayout(settings: SimulationSettings): FigureLayout {
+  let mapWidth = FIGURE_WIDTH - 2 * MARGIN;
+  let mapHeight = mapWidth * (settings.venueDepth / settings.venueWidth);
+  if (mapHeight > MAX_MAP_HEIGHT) {
+    mapHeight = MAX_MAP_HEIGHT;
+    mapWidth = mapHeight * (settings.venueWidth / settings.venueDepth);
+  }
+  const mapX = (FIGURE_WIDTH - mapWidth) / 2;
+  const mapY = TITLE_HEIGHT;
+  return {
+    width: FIGURE_WIDTH,
+    height: TITLE_HEIGHT + mapHeight + FOOTER_HEIGHT,
+    mapX,
+    mapY,
+    mapWidth,
+    mapHeight,
+    toFigure: p => ({
+      x: mapX + (p.x / settings.venueWidth + 0.5) * mapWidth,
+      y: mapY + (p.y / settings.venueDepth + 0.5) * mapHeight
+    })
+  };
+}
+
+const isBandReport = (input: ReportInput) => input.viewMode === 'Band';
+
+// What the heatmap shows, for captions
+export function describeReportView(input: ReportInput): string {
+  const { settings } = input;
+  if (!isBandReport(input)) return `${settings.frequency} Hz SPL`;
+  const { band } = settings;
+  return `${band.minFrequency}–${band.maxFrequency} Hz ${band.statistic === 'worst' ? 'worst case' : 'power average'}`;
+}
+
+// Heatmap at the simulation resolution, one pixel per grid sample
+function renderHeatmapCanvas(input: ReportInput): HTMLCanvasElement {
+  const { speakers, groups, settings } = input;
+  const image = isBandReport(input)
+    ? renderBandImage(computeBandField(speakers, groups, settings), settings)
+    : renderFieldImage(computeSoundField(speakers, groups, settings), 'SPL', settings);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')!.putImageData(image, 0, 0);
+  return canvas;
+}
+
+// Longest round length that fits in a quarter of the venue width
+function getScaleBarMeters(settings: SimulationSettings): number {
+  const fitting = SCALE_BAR_LENGTHS.filter(m => m <= settings.venueWidth / 4);
+  return fitting.length > 0 ? fitting[fitting.length - 1] : SCALE_BAR_LENGTHS[0];
+}
+
+function getLegendTicks(min: number, max: number): number[] {
+  return Array.from({ length: 5 }, (_, i) => Math.round(min + ((max - min) * i) / 4));
+}
+
+const speakerColor = (s: Speaker, groups: Group[]) =>
+  groups.find(g => g.id === s.groupId)?.color ?? (s.role === 'main' ? DEFAULT_MAIN_COLOR : DEFAULT_SPEAKER_COLOR);
+
+const ROLE_LABELS: Record<SpeakerRole, string> = { sub: 'Subwoofer', main: 'Main PA' };
+
+const rgb = ([r, g, b]: [number, number, number]) => `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// --- Raster figure ---
+
+export function renderReportCanvas(input: ReportInput): HTMLCanvasElement {
+  const { settings, speakers, groups, mics } = input;
+  const layout = getLayout(settings);
+  const { mapX, mapY, mapWidth, mapHeight, toFigure } = layout;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext('2d')!;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, layout.width, layout.height);
+
+  // Title
+  ctx.fillStyle = '#0f172a';
+  ctx.textAlign = 'left';
+  ctx.font = 'bold 18px sans-serif';
+  ctx.fillText(input.title, mapX, 26);
+  ctx.font = '12px sans-serif';
+  ctx.fillStyle = '#475569';
+  ctx.fillText(`${describeReportView(input)} — plan at ${settings.listenerHeight} m — ${new Date().toLocaleDateString()}`, mapX, 44);
+
+  // Heatmap
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(renderHeatmapCanvas(input), mapX, mapY, mapWidth, mapHeight);
+  ctx.strokeStyle = '#0f172a';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(mapX, mapY, mapWidth, mapHeight);
+
+  // Speakers with aim ticks; subs are round, main PA boxes square as on the canvas
+  speakers.forEach(s => {
+    const { x, y } = toFigure(s);
+    const a = (s.rotation * Math.PI) / 180;
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + Math.sin(a) * 16, y + Math.cos(a) * 16);
+    ctx.stroke();
+
+    ctx.beginPath();
+    if (s.role === 'main') {
+      ctx.rect(x - SPEAKER_RADIUS, y - SPEAKER_RADIUS, SPEAKER_RADIUS * 2, SPEAKER_RADIUS * 2);
+    } else {
+      ctx.arc(x, y, SPEAKER_RADIUS, 0, 2 * Math.PI);
+    }
+    ctx.fillStyle = s.mute ? '#ef4444' : speakerColor(s, groups);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(s.name, x, y - 11);
+  });
+
+  // Mics
+  mics.forEach(m => {
+    const { x, y } = toFigure(m);
+    ctx.beginPath();
+    ctx.moveTo(x, y - 6);
+    ctx.lineTo(x + 5, y + 4);
+    ctx.lineTo(x - 5, y + 4);
+    ctx.closePath();
+    ctx.fillStyle = m.color;
+    ctx.fill();
+    ctx.strokeStyle = '#0f172a';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  });
+
+  // dB legend
+  const { min, max, unit } = getLevelLegend(settings, input.viewMode === 'Band' ? 'Band' : 'SPL');
+  const legendY = mapY + mapHeight + 22;
+  const gradient = ctx.createLinearGradient(mapX, 0, mapX + LEGEND_WIDTH, 0);
+  [0, 0.2, 0.4, 0.6, 0.8, 1].forEach(v => gradient.addColorStop(v, rgb(getHeatmapColor(v))));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(mapX, legendY, LEGEND_WIDTH, LEGEND_HEIGHT);
+  ctx.strokeStyle = '#0f172a';
+  ctx.strokeRect(mapX, legendY, LEGEND_WIDTH, LEGEND_HEIGHT);
+  ctx.fillStyle = '#0f172a';
+  ctx.font = '11px sans-serif';
+  getLegendTicks(min, max).forEach((db, i) => {
+    const x = mapX + (LEGEND_WIDTH * i) / 4;
+    ctx.textAlign = i === 0 ? 'left' : i === 4 ? 'right' : 'center';
+    ctx.fillText(String(db), x, legendY + LEGEND_HEIGHT + 14);
+  });
+  ctx.textAlign = 'left';
+  ctx.fillText(unit, mapX + LEGEND_WIDTH + 10, legendY + LEGEND_HEIGHT - 1);
+
+  // Scale bar
+  const meters = getScaleBarMeters(settings);
+  const barWidth = (meters / settings.venueWidth) * mapWidth;
+  const barX = mapX + mapWidth - barWidth;
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(barX, legendY + 4, barWidth, 4);
+  ctx.fillRect(barX, legendY, 1.5, 12);
+  ctx.fillRect(barX + barWidth - 1.5, legendY, 1.5, 12);
+  ctx.textAlign = 'center';
+  ctx.fillText(`${meters} m`, barX + barWidth / 2, legendY + LEGEND_HEIGHT + 14);
+
+  return canvas;
+}
+
+// --- Vector figure ---
+
+export function renderReportSvg(input: ReportInput): string {
+  const { settings, speakers, groups, mics } = input;
+  const layout = getLayout(settings);
+  const { mapX, mapY, mapWidth, mapHeight, toFigure } = layout;
+  const { min, max, unit } = getLevelLegend(settings, input.viewMode === 'Band' ? 'Band' : 'SPL');
+  const legendY = mapY + mapHeight + 22;
+  const meters = getScaleBarMeters(settings);
+  const barWidth = (meters / settings.venueWidth) * mapWidth;
+  const barX = mapX + mapWidth - barWidth;
+
+  const stops = [0, 0.2, 0.4, 0.6, 0.8, 1]
+    .map(v => `<stop offset="${v}" stop-color="${rgb(getHeatmapColor(v))}"/>`)
+    .join('');
+
+  const speakerMarks = speakers.map(s => {
+    const { x, y } = toFigure(s);
+    const a = (s.rotation * Math.PI) / 180;
+    const fill = escapeXml(s.mute ? '#ef4444' : speakerColor(s, groups));
+    const body = s.role === 'main'
+      ? `<rect x="${(x - SPEAKER_RADIUS).toFixed(1)}" y="${(y - SPEAKER_RADIUS).toFixed(1)}" width="${SPEAKER_RADIUS * 2}" height="${SPEAKER_RADIUS * 2}" fill="${fill}" stroke="#fff" stroke-width="2"/>`
+      : `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${SPEAKER_RADIUS}" fill="${fill}" stroke="#fff" stroke-width="2"/>`;
+    return `<g>
+  <line x1="${x.toFixed(1)}" y1="${y.toFixed(1)}" x2="${(x + Math.sin(a) * 16).toFixed(1)}" y2="${(y + Math.cos(a) * 16).toFixed(1)}" stroke="#fff" stroke-width="2"/>
+  ${body}
+  <text x="${x.toFixed(1)}" y="${(y - 11).toFixed(1)}" fill="#fff" font-size="11" text-anchor="middle">${escapeXml(s.name)}</text>
+</g>`;
+  }).join('\n');
+
+  const micMarks = mics.map(m => {
+    const { x, y } = toFigure(m);
+    return `<polygon points="${x},${y - 6} ${x + 5},${y + 4} ${x - 5},${y + 4}" fill="${escapeXml(m.color)}" stroke="#0f172a"/>`;
+  }).join('\n');
+
+  const ticks = getLegendTicks(min, max).map((db, i) => {
+    const anchor = i === 0 ? 'start' : i === 4 ? 'end' : 'middle';
+    return `<text x="${mapX + (LEGEND_WIDTH * i) / 4}" y="${legendY + LEGEND_HEIGHT + 14}" font-size="11" text-anchor="${anchor}">${db}</text>`;
+  }).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height.toFixed(0)}" viewBox="0 0 ${layout.width} ${layout.height.toFixed(0)}" font-family="sans-serif">
+<defs><linearGradient id="level">${stops}</linearGradient></defs>
+<rect width="100%" height="100%" fill="#fff"/>
+<text x="${mapX}" y="26" font-size="18" font-weight="bold" fill="#0f172a">${escapeXml(input.title)}</text>
+<text x="${mapX}" y="44" font-size="12" fill="#475569">${escapeXml(`${describeReportView(input)} — plan at ${settings.listenerHeight} m — ${new Date().toLocaleDateString()}`)}</text>
+<image href="${renderHeatmapCanvas(input).toDataURL('image/png')}" x="${mapX}" y="${mapY}" width="${mapWidth}" height="${mapHeight}" preserveAspectRatio="none"/>
+<rect x="${mapX}" y="${mapY}" width="${mapWidth}" height="${mapHeight}" fill="none" stroke="#0f172a"/>
+${speakerMarks}
+${micMarks}
+<rect x="${mapX}" y="${legendY}" width="${LEGEND_WIDTH}" height="${LEGEND_HEIGHT}" fill="url(#level)" stroke="#0f172a"/>
+<g fill="#0f172a">${ticks}<text x="${mapX + LEGEND_WIDTH + 10}" y="${legendY + LEGEND_HEIGHT - 1}" font-size="11">${escapeXml(unit)}</text></g>
+<g fill="#0f172a">
+  <rect x="${barX.toFixed(1)}" y="${legendY + 4}" width="${barWidth.toFixed(1)}" height="4"/>
+  <rect x="${barX.toFixed(1)}" y="${legendY}" width="1.5" height="12"/>
+  <rect x="${(barX + barWidth - 1.5).toFixed(1)}" y="${legendY}" width="1.5" height="12"/>
+  <text x="${(barX + barWidth / 2).toFixed(1)}" y="${legendY + LEGEND_HEIGHT + 14}" font-size="11" text-anchor="middle">${meters} m</text>
+</g>
+</svg>`;
+}
+
+// --- Printable page ---
+
+function table(headers: string[], rows: (string | number)[][]): string {
+  const head = headers.map(h => `<th>${escapeXml(h)}</th>`).join('');
+  const body = rows.map(r => `<tr>${r.map(c => `<td>${escapeXml(String(c))}</td>`).join('')}</tr>`).join('\n');
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+export function renderReportHtml(input: ReportInput): string {
+  const { settings, speakers, groups } = input;
+  const figure = renderReportCanvas(input).toDataURL('image/png');
+  const { boundaries, band, levelScale } = settings;
+  const enabledBoundaries = (Object.keys(boundaries) as (keyof typeof boundaries)[])
+    .filter(key => boundaries[key].enabled)
+    .map(key => `${key} (${boundaries[key].reflection}, order ${boundaries[key].order})`);
+
+  const settingsRows: [string, string][] = [
+    ['View', describeReportView(input)],
+    ['Frequency', `${settings.frequency} Hz`],
+    ['Band', `${band.minFrequency}–${band.maxFrequency} Hz, 1/${band.pointsPerOctave} octave, ${band.weighting}-weighted`],
+    ['Temperature', `${settings.temperature} °C (c = ${calculateSpeedOfSound(settings.temperature).toFixed(1)} m/s)`],
+    ['Venue', `${settings.venueWidth} × ${settings.venueDepth} × ${settings.venueHeight} m (W × D × H)`],
+    ['Listening plane', `${settings.listenerHeight} m`],
+    ['Resolution', `${settings.resolution} points/m`],
+    ['Level scale', levelScale.absolute ? `${levelScale.minSpl}–${levelScale.maxSpl} dB SPL` : `${settings.dynamicRange} dB below maximum`],
+    ['Boundaries', enabledBoundaries.length > 0 ? enabledBoundaries.join(', ') : 'free field']
+  ];
+
+  const speakerRows = speakers.map(s => [
+    s.name,
+    groups.find(g => g.id === s.groupId)?.name ?? '—',
+    getSpeakerModel(s.modelId).name,
+    ROLE_LABELS[s.role],
+    s.channel,
+    s.x.toFixed(2),
+    s.y.toFixed(2),
+    s.z.toFixed(2),
+    s.rotation.toFixed(0),
+    s.gain.toFixed(1),
+    s.delay.toFixed(2),
+    s.polarity ? 'Inverted' : 'Normal',
+    s.mute ? 'Muted' : ''
+  ]);
+
+  // Group processing adds to the speaker values above
+  const groupRows = groups.map(g => [
+    g.name,
+    String(speakers.filter(s => s.groupId === g.id).length),
+    g.gain.toFixed(1),
+    g.delay.toFixed(2),
+    g.polarity ? 'Inverted' : 'Normal',
+    g.mute ? 'Muted' : ''
+  ]);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(input.title)}</title>
+<style>
+  body { font-family: sans-serif; color: #0f172a; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; text-transform: uppercase; letter-spacing: 0.05em; color: #475569; }
+  p.meta { color: #475569; font-size: 12px; margin: 0 0 16px; }
+  img { max-width: 100%; }
+  table { border-collapse: collapse; font-size: 12px; width: 100%; }
+  th, td { border: 1px solid #cbd5e1; padding: 3px 6px; text-align: left; }
+  th { background: #f1f5f9; }
+  td:nth-child(n+4) { font-variant-numeric: tabular-nums; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeXml(input.title)}</h1>
+<p class="meta">Generated ${escapeXml(new Date().toLocaleString())}</p>
+<img src="${figure}" alt="Plan view heatmap">
+<h2>Simulation settings</h2>
+${table(['Setting', 'Value'], settingsRows)}
+<h2>Speakers (${speakers.length})</h2>
+${table(['Name', 'Group', 'Model', 'Role', 'Channel', 'X (m)', 'Y (m)', 'Z (m)', 'Aim (°)', 'Gain (dB)', 'Delay (ms)', 'Polarity', 'Mute'], speakerRows)}
+${groups.length > 0 ? `<h2>Group processing (added to member speakers)</h2>
+${table(['Group', 'Speakers', 'Gain (dB)', 'Delay (ms)', 'Polarity', 'Mute'], groupRows)}
+` : ''}</body>
+</html>`;
+}
@@ -0,0 +1,66 @@
+import { Speaker, SpeakerRole, Group, SimulationSettings, Position3D } from '../types';
+import { buildFieldSources, computeLevelAt, computePressureAt, getSourceChannels, getWavenumber } from './physics';
+
+// Frequency response at a point, from the same source model as the heatmap.
+// Magnitude sums channels in power like the heatmap. Uncorrelated channels have no common phase,
+// so phase is only reported when every contributing source is on one channel.
+
+export interface ResponsePoint {
+  frequency: number; // Hz
+  magnitude: number; // dB SPL (speaker sensitivity at 0 dB drive)
+  phase: number | null; // degrees, wrapped to -180..180; null when sources span several channels
+}
+
+export function computeResponseAt(
+  speakers: Speaker[],
+  groups: Group[],
+  settings: SimulationSettings,
+  point: Position3D,
+  frequencies: number[]
+): ResponsePoint[] {
+  return frequencies.map(frequency => {
+    const atFrequency = { ...settings, frequency };
+    const sources = buildFieldSources(speakers, groups, atFrequency);
+    const k = getWavenumber(atFrequency);
+    const pressure = computeLevelAt(sources, k, point.x, point.y, point.z);
+    let phase: number | null = null;
+    if (getSourceChannels(sources).length <= 1) {
+      const p = computePressureAt(sources, k, point.x, point.y, point.z);
+      phase = (Math.atan2(p.im, p.re) * 180) / Math.PI;
+    }
+
+    return {
+      frequency,
+      magnitude: pressure > 0 ? 20 * Math.log10(pressure) : -Infinity,
+      phase
+    };
+  });
+}
+
+// The same scene with every speaker of the other role muted, so solo state still applies
+export function isolateRole(speakers: Speaker[], role: SpeakerRole): Speaker[] {
+  return speakers.map(s => s.role === role ? s : { ...s, mute: true });
+}
+
+export interface CrossoverPoint {
+  frequency: number; // Hz, where the sub and main-PA magnitudes are closest
+  phaseOffset: number; // degrees, sub minus main PA, wrapped to -180..180
+}
+
+// Acoustic crossover between two responses on the same frequencies; null if either part is silent
+// or has no single phase (spans several channels)
+export function findCrossover(sub: ResponsePoint[], main: ResponsePoint[]): CrossoverPoint | null {
+  let best = -1;
+  sub.forEach((p, i) => {
+    const q = main[i];
+    if (!isFinite(p.magnitude) || !isFinite(q.magnitude)) return;
+    if (best < 0 || Math.abs(p.magnitude - q.magnitude) < Math.abs(sub[best].magnitude - main[best].magnitude)) best = i;
+  });
+  if (best < 0) return null;
+  const subPhase = sub[best].phase;
+  const mainPhase = main[best].phase;
+  if (subPhase === null || mainPhase === null) return null;
+
+  const offset = ((subPhase - mainPhase) % 360 + 540) % 360 - 180;
+  return { frequency: sub[best].frequency, phaseOffset: offset };
+}
@@ -0,0 +1,439 @@
+import { Scene, SceneFile, SimulationSettings, Speaker, SpeakerRole, SignalChannel, Group, Microphone, OptimizerRegion, Boundary, BoundarySettings, ViewMode, DspFilter, FilterType, FilterAlignment } from '../types';
+import { DEFAULT_SPEAKER_MODEL_ID, SPEAKER_MODELS } from './speakerModels';
+import { FILTER_TYPES, LINKWITZ_RILEY_ORDERS, createFilter } from './dsp';
+import { MAX_RESOLUTION, MIN_RESOLUTION, SIGNAL_CHANNELS } from './physics';
+
+// Scene files: versioned JSON with validation and forward migration.
+// Version history:
+//   0 - unversioned export of the raw App state ({ speakers, groups, settings }) with 2D speakers only
+//   1 - adds format/version header, mics, view mode, speaker height/model/aim, boundaries, band and level scale
+//   2 - adds optimizer regions
+//   3 - adds group gain, delay and polarity
+//   4 - adds speaker and group DSP filter chains
+//   5 - adds speaker role (sub / main PA)
+//   6 - adds speaker signal channel
+
+export const SCENE_FORMAT = 'lowfreq-sim-scene';
+export const SCENE_VERSION = 6;
+
+export const DEFAULT_SETTINGS: SimulationSettings = {
+  frequency: 60, // Standard sub frequency
+  temperature: 20,
+  venueWidth: 20,
+  venueDepth: 20,
+  venueHeight: 8,
+  listenerHeight: 1.7,
+  resolution: 10, // calculation points per meter
+  dynamicRange: 36, // dB
+  levelScale: {
+    absolute: false,
+    minSpl: 80,
+    maxSpl: 130
+  },
+  boundaries: {
+    left: { enabled: false, reflection: 0.7, order: 1 },
+    right: { enabled: false, reflection: 0.7, order: 1 },
+    back: { enabled: false, reflection: 0.7, order: 1 },
+    front: { enabled: false, reflection: 0.7, order: 1 },
+    floor: { enabled: false, reflection: 1, order: 1 }
+  },
+  band: {
+    minFrequency: 40,
+    maxFrequency: 100,
+    pointsPerOctave: 12,
+    weighting: 'Z',
+    statistic: 'average'
+  }
+};
+
+// Thrown for files that can't be read. `details` lists every problem found, with its JSON path.
+export class SceneError extends Error {
+  details: string[];
+
+  constructor(message: string, details: string[] = []) {
+    super(message);
+    this.name = 'SceneError';
+    this.details = details;
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+// Each migration lifts a file from version N to N + 1
+const MIGRATIONS: Record<number, (raw: Raw) => Raw> = {
+  0: raw => ({
+    ...raw,
+    mics: [],
+    viewMode: 'SPL',
+    // Version 0 speakers stood on the floor, used the point-source model and faced the audience
+    speakers: Array.isArray(raw.speakers)
+      ? raw.speakers.map(s => isObject(s) ? { z: 0, modelId: DEFAULT_SPEAKER_MODEL_ID, rotation: 0, ...s } : s)
+      : raw.speakers
+  }),
+  1: raw => ({ ...raw, regions: [] }),
+  // Groups gained their own processing, neutral for existing scenes
+  2: raw => ({
+    ...raw,
+    groups: Array.isArray(raw.groups)
+      ? raw.groups.map(g => isObject(g) ? { gain: 0, delay: 0, polarity: false, ...g } : g)
+      : raw.groups
+  }),
+  // Speakers and groups gained DSP chains
+  3: raw => {
+    const withFilters = (list: unknown) => Array.isArray(list)
+      ? list.map(item => isObject(item) ? { filters: [], ...item } : item)
+      : list;
+    return { ...raw, speakers: withFilters(raw.speakers), groups: withFilters(raw.groups) };
+  },
+  // Main PA speakers were added; everything before was a sub
+  4: raw => ({
+    ...raw,
+    speakers: Array.isArray(raw.speakers)
+      ? raw.speakers.map(s => isObject(s) ? { role: 'sub', ...s } : s)
+      : raw.speakers
+  }),
+  // Signal channels were added; everything before was one coherent feed
+  5: raw => ({
+    ...raw,
+    speakers: Array.isArray(raw.speakers)
+      ? raw.speakers.map(s => isObject(s) ? { channel: 'mono', ...s } : s)
+      : raw.speakers
+  })
+};
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Accepted range of a numeric field. min / max are inclusive, above is an exclusive lower bound.
+interface Limits {
+  min?: number;
+  max?: number;
+  above?: number;
+  integer?: boolean;
+}
+
+function describeLimits({ min, max, above, integer }: Limits): string {
+  const kind = integer ? 'an integer' : 'a number';
+  if (min !== undefined && min === max) return `${min}`;
+  if (min !== undefined && max !== undefined) return `${kind} from ${min} to ${max}`;
+  if (above !== undefined) return `${kind} above ${above}${max !== undefined ? ` up to ${max}` : ''}`;
+  if (min !== undefined) return `${kind} of at least ${min}`;
+  if (max !== undefined) return `${kind} of at most ${max}`;
+  return kind;
+}
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Field readers collect errors instead of throwing so the user sees every problem at once
+class Reader {
+  errors: string[] = [];
+
+  fail(path: string, expected: string, value: unknown) {
+    this.errors.push(`${path}: expected ${expected}, got ${value === undefined ? 'nothing' : JSON.stringify(value)}`);
+  }
+
+  number(obj: Raw, key: string, path: string, fallback?: number): number {
+    const value = obj[key];
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(`${path}.${key}`, 'a number', value);
+      return fallback ?? 0;
+    }
+    return value;
+  }
+
+  // A number that must also lie within limits
+  ranged(obj: Raw, key: string, path: string, limits: Limits, fallback?: number): number {
+    const value = this.number(obj, key, path, fallback);
+    if (typeof obj[key] !== 'number' || !Number.isFinite(obj[key])) return value;
+    const { min, max, above, integer } = limits;
+    if ((min !== undefined && value < min) || (max !== undefined && value > max) ||
+        (above !== undefined && value <= above) || (integer && !Number.isInteger(value))) {
+      this.fail(`${path}.${key}`, describeLimits(limits), value);
+      return fallback ?? min ?? 0;
+    }
+    return value;
+  }
+
+  // Two fields that must be strictly increasing, e.g. the ends of a range
+  ordered(path: string, lowKey: string, low: number, highKey: string, high: number) {
+    if (low >= high) this.errors.push(`${path}: ${lowKey} (${low}) must be below ${highKey} (${high})`);
+  }
+
+  string(obj: Raw, key: string, path: string, fallback?: string): string {
+    const value = obj[key];
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'string') {
+      this.fail(`${path}.${key}`, 'a string', value);
+      return fallback ?? '';
+    }
+    return value;
+  }
+
+  // Only hex colours are kept; anything else falls back so colours never carry markup into exports
+  color(obj: Raw, key: string, path: string, fallback: string): string {
+    const value = this.string(obj, key, path, fallback);
+    return HEX_COLOR.test(value) ? value : fallback;
+  }
+
+  boolean(obj: Raw, key: string, path: string, fallback?: boolean): boolean {
+    const value = obj[key];
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'boolean') {
+      this.fail(`${path}.${key}`, 'true or false', value);
+      return fallback ?? false;
+    }
+    return value;
+  }
+
+  oneOf<T extends string | number>(obj: Raw, key: string, path: string, options: readonly T[], fallback: T): T {
+    const value = obj[key];
+    if (value === undefined) return fallback;
+    if (!options.includes(value as T)) {
+      this.fail(`${path}.${key}`, `one of ${options.join(', ')}`, value);
+      return fallback;
+    }
+    return value as T;
+  }
+
+  object(obj: Raw, key: string, path: string): Raw {
+    const value = obj[key];
+    if (value === undefined) return {};
+    if (!isObject(value)) {
+      this.fail(`${path}.${key}`, 'an object', value);
+      return {};
+    }
+    return value;
+  }
+
+  array<T>(obj: Raw, key: string, path: string, item: (raw: Raw, path: string) => T, optional = false): T[] {
+    const value = obj[key];
+    if (value === undefined && optional) return [];
+    if (!Array.isArray(value)) {
+      this.fail(`${path}.${key}`, 'a list', value);
+      return [];
+    }
+    return value.flatMap((raw, i) => {
+      const itemPath = `${path}.${key}[${i}]`;
+      if (!isObject(raw)) {
+        this.fail(itemPath, 'an object', raw);
+        return [];
+      }
+      return [item(raw, itemPath)];
+    });
+  }
+}
+
+// Highest reflection order a wall accepts, as in the boundary controls. The floor is a single
+// plane and stops at 1 (see reflections.ts).
+const MAX_BOUNDARY_ORDER = 4;
+
+function readBoundary(r: Reader, raw: Raw, path: string, fallback: Boundary, maxOrder: number): Boundary {
+  return {
+    enabled: r.boolean(raw, 'enabled', path, fallback.enabled),
+    reflection: r.ranged(raw, 'reflection', path, { min: 0, max: 1 }, fallback.reflection),
+    order: r.ranged(raw, 'order', path, { min: 1, max: maxOrder, integer: true }, fallback.order)
+  };
+}
+
+function readBoundaries(r: Reader, raw: Raw, path: string): BoundarySettings {
+  const d = DEFAULT_SETTINGS.boundaries;
+  const read = (key: keyof BoundarySettings) =>
+    readBoundary(r, r.object(raw, key, path), `${path}.${key}`, d[key], key === 'floor' ? 1 : MAX_BOUNDARY_ORDER);
+  return {
+    left: read('left'),
+    right: read('right'),
+    back: read('back'),
+    front: read('front'),
+    floor: read('floor')
+  };
+}
+
+function readSettings(r: Reader, raw: Raw, path: string): SimulationSettings {
+  const d = DEFAULT_SETTINGS;
+  const levelScale = r.object(raw, 'levelScale', path);
+  const band = r.object(raw, 'band', path);
+  const levelPath = `${path}.levelScale`;
+  const bandPath = `${path}.band`;
+
+  const settings: SimulationSettings = {
+    frequency: r.ranged(raw, 'frequency', path, { above: 0 }, d.frequency),
+    temperature: r.ranged(raw, 'temperature', path, { min: -50, max: 60 }, d.temperature),
+    venueWidth: r.ranged(raw, 'venueWidth', path, { above: 0 }, d.venueWidth),
+    venueDepth: r.ranged(raw, 'venueDepth', path, { above: 0 }, d.venueDepth),
+    venueHeight: r.ranged(raw, 'venueHeight', path, { above: 0 }, d.venueHeight),
+    listenerHeight: r.ranged(raw, 'listenerHeight', path, { min: 0 }, d.listenerHeight),
+    resolution: r.ranged(raw, 'resolution', path, { min: MIN_RESOLUTION, max: MAX_RESOLUTION }, d.resolution),
+    dynamicRange: r.ranged(raw, 'dynamicRange', path, { above: 0 }, d.dynamicRange),
+    levelScale: {
+      absolute: r.boolean(levelScale, 'absolute', levelPath, d.levelScale.absolute),
+      minSpl: r.number(levelScale, 'minSpl', levelPath, d.levelScale.minSpl),
+      maxSpl: r.number(levelScale, 'maxSpl', levelPath, d.levelScale.maxSpl)
+    },
+    boundaries: readBoundaries(r, r.object(raw, 'boundaries', path), `${path}.boundaries`),
+    band: {
+      minFrequency: r.ranged(band, 'minFrequency', bandPath, { above: 0 }, d.band.minFrequency),
+      maxFrequency: r.ranged(band, 'maxFrequency', bandPath, { above: 0 }, d.band.maxFrequency),
+      pointsPerOctave: r.oneOf(band, 'pointsPerOctave', bandPath, [3, 12] as const, d.band.pointsPerOctave),
+      weighting: r.oneOf(band, 'weighting', bandPath, ['Z', 'A', 'C'] as const, d.band.weighting),
+      statistic: r.oneOf(band, 'statistic', bandPath, ['average', 'worst'] as const, d.band.statistic)
+    }
+  };
+
+  r.ordered(levelPath, 'minSpl', settings.levelScale.minSpl, 'maxSpl', settings.levelScale.maxSpl);
+  r.ordered(bandPath, 'minFrequency', settings.band.minFrequency, 'maxFrequency', settings.band.maxFrequency);
+  return settings;
+}
+
+function readFilter(r: Reader, raw: Raw, path: string): DspFilter {
+  const type = r.oneOf<FilterType>(raw, 'type', path, FILTER_TYPES.map(t => t.id), 'peak');
+  const d = createFilter(type);
+  const alignment = r.oneOf<FilterAlignment>(raw, 'alignment', path, ['butterworth', 'linkwitz-riley'], d.alignment);
+  // Orders the editor offers for this type (see FilterChainEditor)
+  const orders = type === 'allpass'
+    ? [1, 2]
+    : (type === 'lowpass' || type === 'highpass') && alignment === 'linkwitz-riley'
+      ? LINKWITZ_RILEY_ORDERS
+      : [1, 2, 3, 4, 5, 6, 7, 8];
+  return {
+    type,
+    frequency: r.ranged(raw, 'frequency', path, { above: 0, max: 20000 }, d.frequency),
+    q: r.ranged(raw, 'q', path, { min: 0.1, max: 50 }, d.q),
+    gain: r.ranged(raw, 'gain', path, { min: -60, max: 60 }, d.gain),
+    order: r.oneOf(raw, 'order', path, orders, d.order),
+    alignment,
+    bypass: r.boolean(raw, 'bypass', path, false)
+  };
+}
+
+function readSpeaker(r: Reader, raw: Raw, path: string): Speaker {
+  const modelIds = SPEAKER_MODELS.map(m => m.id);
+  return {
+    id: r.string(raw, 'id', path),
+    groupId: raw.groupId === undefined || raw.groupId === null ? undefined : r.string(raw, 'groupId', path),
+    modelId: r.oneOf(raw, 'modelId', path, modelIds, DEFAULT_SPEAKER_MODEL_ID),
+    role: r.oneOf<SpeakerRole>(raw, 'role', path, ['sub', 'main'], 'sub'),
+    channel: r.oneOf<SignalChannel>(raw, 'channel', path, SIGNAL_CHANNELS.map(c => c.id), 'mono'),
+    name: r.string(raw, 'name', path, ''),
+    x: r.number(raw, 'x', path),
+    y: r.number(raw, 'y', path),
+    z: r.ranged(raw, 'z', path, { min: 0 }),
+    rotation: r.number(raw, 'rotation', path),
+    gain: r.number(raw, 'gain', path, 0),
+    delay: r.ranged(raw, 'delay', path, { min: 0 }, 0),
+    polarity: r.boolean(raw, 'polarity', path, false),
+    filters: r.array(raw, 'filters', path, (f, p) => readFilter(r, f, p), true),
+    mute: r.boolean(raw, 'mute', path, false),
+    solo: r.boolean(raw, 'solo', path, false)
+  };
+}
+
+function readGroup(r: Reader, raw: Raw, path: string): Group {
+  return {
+    id: r.string(raw, 'id', path),
+    name: r.string(raw, 'name', path, ''),
+    color: r.color(raw, 'color', path, '#3b82f6'),
+    gain: r.number(raw, 'gain', path, 0),
+    delay: r.ranged(raw, 'delay', path, { min: 0 }, 0),
+    polarity: r.boolean(raw, 'polarity', path, false),
+    filters: r.array(raw, 'filters', path, (f, p) => readFilter(r, f, p), true),
+    mute: r.boolean(raw, 'mute', path, false),
+    solo: r.boolean(raw, 'solo', path, false)
+  };
+}
+
+function readMic(r: Reader, raw: Raw, path: string): Microphone {
+  return {
+    id: r.string(raw, 'id', path),
+    name: r.string(raw, 'name', path, ''),
+    color: r.color(raw, 'color', path, '#f8fafc'),
+    x: r.number(raw, 'x', path),
+    y: r.number(raw, 'y', path),
+    z: r.ranged(raw, 'z', path, { min: 0 })
+  };
+}
+
+function readRegion(r: Reader, raw: Raw, path: string): OptimizerRegion {
+  return {
+    id: r.string(raw, 'id', path),
+    name: r.string(raw, 'name', path, ''),
+    kind: r.oneOf(raw, 'kind', path, ['maximize', 'minimize'] as const, 'maximize'),
+    x: r.number(raw, 'x', path),
+    y: r.number(raw, 'y', path),
+    width: r.ranged(raw, 'width', path, { above: 0 }),
+    depth: r.ranged(raw, 'depth', path, { above: 0 })
+  };
+}
+
+export function serializeScene(scene: Scene): string {
+  const file: SceneFile = {
+    format: SCENE_FORMAT,
+    version: SCENE_VERSION,
+    savedAt: new Date().toISOString(),
+    ...scene
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Migrate an already-parsed scene object to the current version and validate it
+export function readScene(data: unknown): Scene {
+  if (!isObject(data)) throw new SceneError('Not a scene file: the top level must be an object.');
+
+  let version = 0;
+  if (data.format !== undefined || data.version !== undefined) {
+    if (data.format !== SCENE_FORMAT) throw new SceneError(`Not a scene file: unknown format "${String(data.format)}".`);
+    if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+      throw new SceneError(`Invalid scene version "${String(data.version)}".`);
+    }
+    version = data.version;
+  }
+  if (version > SCENE_VERSION) {
+    throw new SceneError(`This scene was saved by a newer version (file version ${version}, supported up to ${SCENE_VERSION}).`);
+  }
+
+  let raw: Raw = data;
+  for (let v = version; v < SCENE_VERSION; v++) raw = MIGRATIONS[v](raw);
+
+  const r = new Reader();
+  const scene: Scene = {
+    speakers: r.array(raw, 'speakers', 'scene', (s, p) => readSpeaker(r, s, p)),
+    groups: r.array(raw, 'groups', 'scene', (g, p) => readGroup(r, g, p), true),
+    mics: r.array(raw, 'mics', 'scene', (m, p) => readMic(r, m, p), true),
+    regions: r.array(raw, 'regions', 'scene', (g, p) => readRegion(r, g, p), true),
+    settings: readSettings(r, r.object(raw, 'settings', 'scene'), 'scene.settings'),
+    viewMode: r.oneOf<ViewMode>(raw, 'viewMode', 'scene', ['SPL', 'Phase', 'Band', 'Crossover', 'Mono'], 'SPL')
+  };
+
+  // Cross references
+  const groupIds = new Set(scene.groups.map(g => g.id));
+  scene.speakers.forEach((s, i) => {
+    if (s.groupId !== undefined && !groupIds.has(s.groupId)) {
+      r.errors.push(`scene.speakers[${i}].groupId: no group with id "${s.groupId}"`);
+    }
+  });
+  const ids = scene.speakers.map(s => s.id);
+  ids.forEach((id, i) => {
+    if (ids.indexOf(id) !== i) r.errors.push(`scene.speakers[${i}].id: duplicate id "${id}"`);
+  });
+  // Speakers look their group up by id, so a second group with the same id would be ignored
+  const groupIdList = scene.groups.map(g => g.id);
+  groupIdList.forEach((id, i) => {
+    if (groupIdList.indexOf(id) !== i) r.errors.push(`scene.groups[${i}].id: duplicate id "${id}"`);
+  });
+
+  if (r.errors.length > 0) {
+    throw new SceneError(`The scene file has ${r.errors.length} problem${r.errors.length === 1 ? '' : 's'}.`, r.errors);
+  }
+  return scene;
+}
+
+export function parseScene(text: string): Scene {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new SceneError(`The file is not valid JSON (${(e as Error).message}).`);
+  }
+  return readScene(data);
+}
@@ -0,0 +1,78 @@
+import { Scene } from '../types';
+import { SCENE_FORMAT, SCENE_VERSION, SceneError, readScene } from './scene';
+
+// Scene links: the scene file, compacted and deflated, carried in the URL hash as `#scene=<codec>.<base64url>`.
+// Codec "z" is deflate-raw; "j" is plain JSON for browsers without CompressionStream.
+
+const HASH_KEY = 'scene';
+
+// Longer links get truncated or rejected by chat apps and some browsers
+export const MAX_LINK_LENGTH = 8000;
+
+// Coordinates to the millimetre, gains to the millidecibel and delays to the microsecond are plenty
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function compact(scene: Scene): string {
+  const file = { format: SCENE_FORMAT, version: SCENE_VERSION, ...scene };
+  return JSON.stringify(file, (_, value) => typeof value === 'number' ? round(value) : value);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+}
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// The hash fragment (without '#') for a scene
+export async function encodeSceneHash(scene: Scene): Promise<string> {
+  const json = new TextEncoder().encode(compact(scene));
+  if (typeof CompressionStream === 'undefined') return `${HASH_KEY}=j.${toBase64Url(json)}`;
+  return `${HASH_KEY}=z.${toBase64Url(await pipe(json, new CompressionStream('deflate-raw')))}`;
+}
+
+// Full shareable URL, or null when the scene is too large for a link
+export async function createSceneLink(scene: Scene, baseUrl: string): Promise<{ url: string | null; length: number }> {
+  const url = `${baseUrl.split('#')[0]}#${await encodeSceneHash(scene)}`;
+  return { url: url.length <= MAX_LINK_LENGTH ? url : null, length: url.length };
+}
+
+// Scene carried by a location hash, null if the hash holds no scene
+export async function decodeSceneHash(hash: string): Promise<Scene | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const value = params.get(HASH_KEY);
+  if (!value) return null;
+
+  const [codec, payload] = value.split('.', 2);
+  let json: string;
+  try {
+    const bytes = fromBase64Url(payload ?? '');
+    if (codec === 'z') {
+      if (typeof DecompressionStream === 'undefined') throw new Error('this browser cannot decompress scene links');
+      json = new TextDecoder().decode(await pipe(bytes, new DecompressionStream('deflate-raw')));
+    } else if (codec === 'j') {
+      json = new TextDecoder().decode(bytes);
+    } else {
+      throw new Error(`unknown encoding "${codec}"`);
+    }
+  } catch (e) {
+    throw new SceneError(`The scene link is damaged or incomplete (${(e as Error).message}).`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new SceneError('The scene link is damaged or incomplete (not valid JSON).');
+  }
+  return readScene(data);
+}
@@ -0,0 +1,237 @@
+import { Speaker, Group } from '../types';
+
+// Speaker table as CSV, for planning positions in spreadsheets and CAD.
+// Import is two-step: parse the text, then build a preview from a column mapping and units
+// so every row can be checked before anything is added to the scene.
+
+export type SpeakerCsvField = 'name' | 'x' | 'y' | 'z' | 'gain' | 'delay' | 'polarity' | 'mute' | 'group';
+
+export const SPEAKER_CSV_FIELDS: SpeakerCsvField[] = ['name', 'x', 'y', 'z', 'gain', 'delay', 'polarity', 'mute', 'group'];
+
+// Column index per field, null when the file has no such column
+export type SpeakerCsvMapping = Record<SpeakerCsvField, number | null>;
+
+export type LengthUnit = 'm' | 'cm' | 'mm' | 'ft' | 'in';
+export type DelayUnit = 'ms' | 's' | 'us';
+
+export const LENGTH_UNITS: Record<LengthUnit, number> = { m: 1, cm: 0.01, mm: 0.001, ft: 0.3048, in: 0.0254 }; // meters per unit
+export const DELAY_UNITS: Record<DelayUnit, number> = { ms: 1, s: 1000, us: 0.001 }; // milliseconds per unit
+
+export interface SpeakerCsvUnits {
+  length: LengthUnit;
+  delay: DelayUnit;
+}
+
+// One speaker as read from the file, ready to be given an id and a group
+export interface ImportedSpeaker {
+  name: string;
+  x: number;
+  y: number;
+  z: number;
+  gain: number;
+  delay: number;
+  polarity: boolean;
+  mute: boolean;
+  groupName: string; // empty = no group
+}
+
+export interface SpeakerCsvPreviewRow {
+  line: number; // 1-based line in the file
+  cells: string[];
+  speaker: ImportedSpeaker | null; // null when the row has errors
+  errors: string[];
+}
+
+export interface SpeakerCsvPreview {
+  rows: SpeakerCsvPreviewRow[];
+  newGroupNames: string[]; // group names not in the scene yet, created on import
+}
+
+// Header aliases for guessing the mapping, lower case without spaces or units
+const FIELD_ALIASES: Record<SpeakerCsvField, string[]> = {
+  name: ['name', 'label', 'id', 'speaker', 'sub'],
+  x: ['x', 'posx', 'positionx', 'xpos'],
+  y: ['y', 'posy', 'positiony', 'ypos'],
+  z: ['z', 'posz', 'positionz', 'zpos', 'height', 'elevation'],
+  gain: ['gain', 'level', 'db', 'gaindb'],
+  delay: ['delay', 'time', 'delayms'],
+  polarity: ['polarity', 'pol', 'invert', 'inverted', 'phase'],
+  mute: ['mute', 'muted', 'off'],
+  group: ['group', 'groupname', 'array', 'zone']
+};
+
+const TRUE_WORDS = ['1', 'true', 'yes', 'y', 'on', 'inverted', 'invert', 'neg', '-', 'muted', 'x'];
+const FALSE_WORDS = ['', '0', 'false', 'no', 'n', 'off', 'normal', 'pos', '+'];
+
+// --- Export ---
+
+function quoteCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Positions in meters, delays in milliseconds
+export function exportSpeakersCsv(speakers: Speaker[], groups: Group[]): string {
+  const rows = speakers.map(s => [
+    s.name,
+    String(s.x),
+    String(s.y),
+    String(s.z),
+    String(s.gain),
+    String(s.delay),
+    s.polarity ? 'inverted' : 'normal',
+    s.mute ? 'yes' : 'no',
+    groups.find(g => g.id === s.groupId)?.name ?? ''
+  ]);
+  return [SPEAKER_CSV_FIELDS, ...rows].map(r => r.map(quoteCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// --- Import ---
+
+// Comma, semicolon (European spreadsheets) or tab, whichever splits the first line most
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length }));
+  return counts.reduce((best, c) => c.n > best.n ? c : best).d;
+}
+
+// RFC 4180 style: quoted cells may contain delimiters, doubled quotes and line breaks.
+// Blank lines are dropped; each row keeps the file line it started on.
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const delimiter = detectDelimiter(text);
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim() !== '')) rows.push({ line: rowLine, cells: cells.map(c => c.trim()) });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+  return rows;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/\(.*?\)|\[.*?\]/g, '').replace(/[^a-z]/g, '');
+
+// Match header names against known aliases; each column is used at most once
+export function guessSpeakerCsvMapping(headers: string[]): SpeakerCsvMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as SpeakerCsvMapping;
+  SPEAKER_CSV_FIELDS.forEach(field => {
+    const index = normalized.findIndex((h, i) => !used.has(i) && FIELD_ALIASES[field].includes(h));
+    mapping[field] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+  return mapping;
+}
+
+// Numbers may use a decimal comma when the file is semicolon separated.
+// A comma must then be the only separator, so "1,234,5" or "1.234,5" is rejected rather than misread
+const DECIMAL_COMMA = /^[+-]?\d*,\d+$/;
+
+function parseNumber(text: string): number | null {
+  if (text.includes(',') && !DECIMAL_COMMA.test(text)) return null;
+  const value = Number(text.replace(',', '.'));
+  return text !== '' && Number.isFinite(value) ? value : null;
+}
+
+function parseFlag(text: string): boolean | null {
+  const word = text.toLowerCase();
+  if (TRUE_WORDS.includes(word)) return true;
+  if (FALSE_WORDS.includes(word)) return false;
+  return null;
+}
+
+export function buildSpeakerCsvPreview(
+  rows: { line: number; cells: string[] }[],
+  mapping: SpeakerCsvMapping,
+  units: SpeakerCsvUnits,
+  groups: Group[]
+): SpeakerCsvPreview {
+  const meters = LENGTH_UNITS[units.length];
+  const milliseconds = DELAY_UNITS[units.delay];
+  const newGroupNames: string[] = [];
+
+  const previewRows = rows.map(({ line, cells }, index) => {
+    const errors: string[] = [];
+    const cell = (field: SpeakerCsvField) => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] ?? '');
+    };
+
+    const number = (field: SpeakerCsvField, required: boolean, scale = 1): number => {
+      const text = cell(field);
+      if (text === '' && !required) return 0;
+      const value = parseNumber(text);
+      if (value === null) {
+        errors.push(text === '' ? `${field} is missing` : `${field} "${text}" is not a number`);
+        return 0;
+      }
+      return value * scale;
+    };
+
+    const flag = (field: SpeakerCsvField): boolean => {
+      const value = parseFlag(cell(field));
+      if (value === null) {
+        errors.push(`${field} "${cell(field)}" is not yes/no`);
+        return false;
+      }
+      return value;
+    };
+
+    const speaker: ImportedSpeaker = {
+      name: cell('name') || `Sub ${index + 1}`,
+      x: number('x', true, meters),
+      y: number('y', true, meters),
+      z: number('z', false, meters),
+      gain: number('gain', false),
+      delay: number('delay', false, milliseconds),
+      polarity: flag('polarity'),
+      mute: flag('mute'),
+      groupName: cell('group')
+    };
+    if (speaker.z < 0) errors.push('z is below the floor');
+    if (speaker.delay < 0) errors.push('delay is negative');
+
+    if (errors.length === 0 && speaker.groupName) {
+      const known = groups.some(g => g.name === speaker.groupName) || newGroupNames.includes(speaker.groupName);
+      if (!known) newGroupNames.push(speaker.groupName);
+    }
+
+    return { line, cells, speaker: errors.length === 0 ? speaker : null, errors };
+  });
+
+  return { rows: previewRows, newGroupNames };
+}
@@ -0,0 +1,131 @@
+import { Speaker, Group, SpeakerModel, ResponseSample, DirectivitySample } from '../types';
+
+// Built-in loudspeaker catalogue and model lookups.
+// Responses are generic: a 2nd-order high-pass for the low-frequency tuning and a 2nd-order
+// low-pass for the upper roll-off, tabulated at 1/6 octave. Directivity is a first-order
+// pattern factor (0 = omni, 0.5 = cardioid, 1 = figure-of-eight) per frequency.
+
+export const DEFAULT_SPEAKER_MODEL_ID = 'point-source';
+
+// Complex response of a 2nd-order section at f: high-pass s^2 / (s^2 + s wc/Q + wc^2), low-pass wc^2 / (...)
+function secondOrder(f: number, fc: number, q: number, type: 'hp' | 'lp'): { re: number; im: number } {
+  const x = f / fc; // normalised frequency, s = jx
+  const denRe = 1 - x * x;
+  const denIm = x / q;
+  const numRe = type === 'hp' ? -x * x : 1;
+  const den = denRe * denRe + denIm * denIm;
+  return { re: (numRe * denRe) / den, im: (-numRe * denIm) / den };
+}
+
+// Tabulate a band-pass alignment with unwrapped phase
+function bandPassResponse(hpFreq: number, hpQ: number, lpFreq: number, lpQ: number): ResponseSample[] {
+  const samples: ResponseSample[] = [];
+  let lastPhase = 0;
+
+  for (let n = 0; n <= 6 * 6; n++) {
+    const frequency = 10 * Math.pow(2, n / 6); // 10 Hz to 640 Hz
+    const hp = secondOrder(frequency, hpFreq, hpQ, 'hp');
+    const lp = secondOrder(frequency, lpFreq, lpQ, 'lp');
+    const re = hp.re * lp.re - hp.im * lp.im;
+    const im = hp.re * lp.im + hp.im * lp.re;
+
+    let phase = (Math.atan2(im, re) * 180) / Math.PI;
+    while (phase - lastPhase > 180) phase -= 360;
+    while (phase - lastPhase < -180) phase += 360;
+    lastPhase = phase;
+
+    samples.push({ frequency, magnitude: 10 * Math.log10(re * re + im * im), phase });
+  }
+
+  return samples;
+}
+
+export const SPEAKER_MODELS: SpeakerModel[] = [
+  {
+    id: 'point-source',
+    name: 'Ideal Point Source',
+    sensitivity: 100,
+    maxSpl: 130,
+    response: [{ frequency: 10, magnitude: 0, phase: 0 }, { frequency: 1000, magnitude: 0, phase: 0 }],
+    directivity: [{ frequency: 10, pattern: 0 }]
+  },
+  {
+    id: 'front-loaded-18',
+    name: 'Front-Loaded 18"',
+    sensitivity: 98,
+    maxSpl: 135,
+    response: bandPassResponse(35, 0.7, 150, 0.7),
+    directivity: [{ frequency: 60, pattern: 0 }, { frequency: 100, pattern: 0.1 }, { frequency: 150, pattern: 0.2 }]
+  },
+  {
+    id: 'horn-loaded-18',
+    name: 'Horn-Loaded 18"',
+    sensitivity: 104,
+    maxSpl: 140,
+    response: bandPassResponse(45, 0.9, 120, 0.8),
+    directivity: [{ frequency: 40, pattern: 0 }, { frequency: 80, pattern: 0.15 }, { frequency: 120, pattern: 0.3 }]
+  },
+  {
+    id: 'cardioid-18',
+    name: 'Cardioid Sub (2x18")',
+    sensitivity: 101,
+    maxSpl: 138,
+    response: bandPassResponse(35, 0.7, 120, 0.7),
+    directivity: [
+      { frequency: 30, pattern: 0.3 },
+      { frequency: 50, pattern: 0.5 },
+      { frequency: 100, pattern: 0.5 },
+      { frequency: 140, pattern: 0.4 }
+    ]
+  },
+  {
+    id: 'main-pa-12',
+    name: 'Main PA (2x12")',
+    sensitivity: 100,
+    maxSpl: 136,
+    response: bandPassResponse(60, 0.8, 5000, 0.7),
+    directivity: [{ frequency: 80, pattern: 0.1 }, { frequency: 200, pattern: 0.4 }, { frequency: 500, pattern: 0.6 }]
+  }
+];
+
+export const MAIN_PA_MODEL_ID = 'main-pa-12';
+
+export function getSpeakerModel(id: string): SpeakerModel {
+  return SPEAKER_MODELS.find(m => m.id === id) ?? SPEAKER_MODELS[0];
+}
+
+// Passband SPL at 1 m on axis for the speaker's drive level (its gain plus its group's)
+export function getSpeakerOutputSpl(speaker: Speaker, group?: Group): number {
+  return getSpeakerModel(speaker.modelId).sensitivity + speaker.gain + (group?.gain ?? 0);
+}
+
+// True when the drive level asks for more than the model can deliver
+export function exceedsMaxSpl(speaker: Speaker, group?: Group): boolean {
+  return getSpeakerOutputSpl(speaker, group) > getSpeakerModel(speaker.modelId).maxSpl;
+}
+
+// Linear interpolation over log frequency, clamped to the table ends
+function interpolate<T extends { frequency: number }>(samples: T[], frequency: number, value: (s: T) => number): number {
+  if (frequency <= samples[0].frequency) return value(samples[0]);
+  const last = samples[samples.length - 1];
+  if (frequency >= last.frequency) return value(last);
+
+  const i = samples.findIndex(s => s.frequency >= frequency);
+  const a = samples[i - 1];
+  const b = samples[i];
+  const t = Math.log(frequency / a.frequency) / Math.log(b.frequency / a.frequency);
+  return value(a) + t * (value(b) - value(a));
+}
+
+// On-axis response at a frequency: magnitude in dB relative to sensitivity, phase in degrees
+export function getModelResponse(model: SpeakerModel, frequency: number): { magnitude: number; phase: number } {
+  return {
+    magnitude: interpolate(model.response, frequency, s => s.magnitude),
+    phase: interpolate(model.response, frequency, s => s.phase)
+  };
+}
+
+// First-order pattern factor at a frequency
+export function getModelPattern(model: SpeakerModel, frequency: number): number {
+  return interpolate<DirectivitySample>(model.directivity, frequency, s => s.pattern);
+}
@@ -0,0 +1,60 @@
+import { Speaker, Group, Position3D } from '../types';
+import { calculateSpeedOfSound, getActiveSpeakers, getEffectiveDrive } from './physics';
+
+// Delays that make a set of speakers arrive together at one reference point (FOH, a main-PA hang, ...).
+// Arrival times are acoustic flight time plus group delay; each speaker's own delay is replaced.
+
+export type AlignTarget = 'latest' | 'main';
+
+export interface SpeakerArrival {
+  id: string;
+  distance: number; // meters, 3D
+  flightTime: number; // ms
+  delay: number; // ms of speaker delay needed to arrive at the target time, never negative
+  late: boolean; // arrives after the target time even without speaker delay
+}
+
+export interface AlignmentPlan {
+  arrivals: SpeakerArrival[];
+  targetTime: number; // ms after the common start of all feeds
+}
+
+export function planAlignment(
+  speakers: Speaker[],
+  groups: Group[],
+  reference: Position3D,
+  temperature: number,
+  target: AlignTarget,
+  mainArrival: number // ms, arrival of the main PA at the reference, for 'main'
+): AlignmentPlan {
+  const c = calculateSpeedOfSound(temperature);
+  const timed = speakers.map(s => {
+    const distance = Math.sqrt((s.x - reference.x) ** 2 + (s.y - reference.y) ** 2 + (s.z - reference.z) ** 2);
+    const groupDelay = groups.find(g => g.id === s.groupId)?.delay ?? 0;
+    return { id: s.id, distance, flightTime: (distance / c) * 1000, groupDelay };
+  });
+
+  const latest = timed.reduce((max, t) => Math.max(max, t.flightTime + t.groupDelay), 0);
+  const targetTime = target === 'main' ? mainArrival : latest;
+
+  return {
+    targetTime,
+    arrivals: timed.map(({ groupDelay, ...t }) => ({
+      ...t,
+      delay: Math.max(0, Math.round((targetTime - t.flightTime - groupDelay) * 100) / 100),
+      late: t.flightTime + groupDelay > targetTime + 0.005
+    }))
+  };
+}
+
+// Earliest arrival of the active main PA at the reference (flight time plus its total delay), in ms;
+// null without a main PA
+export function getMainArrival(speakers: Speaker[], groups: Group[], reference: Position3D, temperature: number): number | null {
+  const c = calculateSpeedOfSound(temperature);
+  const mains = getActiveSpeakers(speakers, groups).filter(s => s.role === 'main');
+  if (mains.length === 0) return null;
+  return Math.min(...mains.map(s => {
+    const distance = Math.sqrt((s.x - reference.x) ** 2 + (s.y - reference.y) ** 2 + (s.z - reference.z) ** 2);
+    return (distance / c) * 1000 + getEffectiveDrive(s, groups).delay;
+  }));
+}
@@ -0,0 +1,154 @@
+import { Speaker, Group, SimulationSettings, SoundField, BandField, FieldPlane, FieldGrid } from '../types';
+import { FieldSource, accumulateSourceRows, buildFieldSources, createFieldGrid, getWavenumber } from '../utils/physics';
+import { commitContribution, createFieldCache, readFieldCache, readPartialSum, syncFieldCache } from '../utils/fieldCache';
+import { allocateBandField, allocateBandScratch, computeBandRows, planBand } from '../utils/band';
+
+// Off-main-thread heatmap computation.
+// Each job is computed coarse-first, then at full settings.resolution. A job is abandoned
+// as soon as a newer one arrives, so only the latest drag position is ever finished.
+// Both passes keep a FieldCache, so a job only recomputes the speakers that changed.
+// Band jobs sweep many frequencies and are computed from scratch.
+
+export interface FieldJob {
+  jobId: number;
+  speakers: Speaker[];
+  groups: Group[];
+  settings: SimulationSettings;
+  plane: FieldPlane;
+  sectionX: number; // meters, position of the vertical cut for the section plane
+  band: boolean; // broadband evaluation over settings.band instead of settings.frequency
+  splitMain: boolean; // also return the main-PA partial sum (crossover view)
+}
+
+export type FieldJobResult = {
+  jobId: number;
+  final: boolean; // false for the coarse preview pass
+} & ({ kind: 'single'; field: SoundField } | { kind: 'band'; field: BandField } | { kind: 'error'; message: string });
+
+// The preview pass uses this fraction of the requested resolution
+const COARSE_FACTOR = 4;
+// Compute for at most this long before checking for newer jobs
+const SLICE_MS = 12;
+
+let latestJobId = 0;
+
+const coarseCache = createFieldCache();
+const fullCache = createFieldCache();
+
+// Yield to the message queue without the 4ms clamp of nested setTimeout
+const yieldToQueue = () => new Promise<void>(resolve => {
+  const channel = new MessageChannel();
+  channel.port1.onmessage = () => resolve();
+  channel.port2.postMessage(null);
+});
+
+// Preview and full-resolution grids for a job
+function getPasses(job: FieldJob): FieldGrid[] {
+  const { settings } = job;
+  const fullGrid = createFieldGrid(settings, job.plane, job.sectionX);
+  const coarseGrid = createFieldGrid({ ...settings, resolution: settings.resolution / COARSE_FACTOR }, job.plane, job.sectionX);
+  return coarseGrid.cols < fullGrid.cols ? [coarseGrid, fullGrid] : [fullGrid];
+}
+
+async function runJob(job: FieldJob) {
+  // Let any already queued newer job supersede this one before doing work
+  await yieldToQueue();
+  if (job.jobId !== latestJobId) return;
+
+  if (job.band) {
+    await runBandJob(job);
+    return;
+  }
+
+  const { settings } = job;
+  const sources = buildFieldSources(job.speakers, job.groups, settings);
+  const k = getWavenumber(settings);
+  const mainIds = new Set(job.speakers.filter(s => s.role === 'main').map(s => s.id));
+
+  const passes = getPasses(job);
+  const fullGrid = passes[passes.length - 1];
+
+  for (const grid of passes) {
+    const cache = grid === fullGrid ? fullCache : coarseCache;
+    const pending = syncFieldCache(cache, sources, grid, k);
+
+    for (const source of pending) {
+      // Computed into fresh buffers and only committed once complete, so an abandoned job
+      // leaves the cache consistent
+      const re = new Float32Array(grid.cols * grid.rows);
+      const im = new Float32Array(grid.cols * grid.rows);
+      let row = 0;
+
+      while (row < grid.rows) {
+        const sliceStart = performance.now();
+        while (row < grid.rows && performance.now() - sliceStart < SLICE_MS) {
+          accumulateSourceRows(source, k, grid, re, im, row, row + 1);
+          row++;
+        }
+        if (row < grid.rows) {
+          await yieldToQueue();
+          if (job.jobId !== latestJobId) return;
+        }
+      }
+      commitContribution(cache, source, re, im);
+    }
+
+    const field = readFieldCache(cache, sources);
+    const transfer = [field.re.buffer, field.im.buffer, field.mag.buffer, ...field.channels.flatMap(c => [c.re.buffer, c.im.buffer])];
+    if (job.splitMain) {
+      const main = readPartialSum(cache, mainIds) ?? computePartialSum(sources.filter(s => mainIds.has(s.id)), k, grid);
+      field.mainRe = main.re;
+      field.mainIm = main.im;
+      transfer.push(main.re.buffer, main.im.buffer);
+    }
+    const result: FieldJobResult = { jobId: job.jobId, final: grid === fullGrid, kind: 'single', field };
+    self.postMessage(result, { transfer });
+
+    await yieldToQueue();
+    if (job.jobId !== latestJobId) return;
+  }
+}
+
+// Fallback for grids too large to cache per source: sum the sources directly
+function computePartialSum(sources: FieldSource[], k: number, grid: FieldGrid): { re: Float32Array; im: Float32Array } {
+  const re = new Float32Array(grid.cols * grid.rows);
+  const im = new Float32Array(grid.cols * grid.rows);
+  for (const source of sources) accumulateSourceRows(source, k, grid, re, im, 0, grid.rows);
+  return { re, im };
+}
+
+async function runBandJob(job: FieldJob) {
+  const plan = planBand(job.speakers, job.groups, job.settings);
+  const passes = getPasses(job);
+
+  for (const grid of passes) {
+    const band = allocateBandField(grid, plan);
+    const scratch = allocateBandScratch(grid, plan);
+    let row = 0;
+
+    while (row < grid.rows) {
+      const sliceStart = performance.now();
+      while (row < grid.rows && performance.now() - sliceStart < SLICE_MS) {
+        computeBandRows(band, plan, scratch, row, row + 1);
+        row++;
+      }
+      await yieldToQueue();
+      if (job.jobId !== latestJobId) return;
+    }
+
+    const result: FieldJobResult = { jobId: job.jobId, final: grid === passes[passes.length - 1], kind: 'band', field: band };
+    self.postMessage(result, { transfer: [band.average.buffer, band.worst.buffer] });
+  }
+}
+
+self.onmessage = (e: MessageEvent<FieldJob>) => {
+  const job = e.data;
+  latestJobId = job.jobId;
+  runJob(job).catch((error: unknown) => {
+    // A half-updated cache can't be trusted for the next job
+    coarseCache.grid = null;
+    fullCache.grid = null;
+    const result: FieldJobResult = { jobId: job.jobId, final: true, kind: 'error', message: error instanceof Error ? error.message : String(error) };
+    self.postMessage(result);
+  });
+};
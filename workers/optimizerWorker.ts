@@ -0,0 +1,30 @@
+import { Speaker, Group, SimulationSettings, OptimizerRegion } from '../types';
+import { OptimizerOptions, OptimizerProposal, optimizeSpeakers } from '../utils/optimizer';
+
+// Off-main-thread optimizer search, so large target sets don't freeze the UI.
+// The search is not interrupted; the panel drops results of superseded jobs.
+
+export interface OptimizerJob {
+  jobId: number;
+  speakers: Speaker[];
+  groups: Group[];
+  settings: SimulationSettings;
+  regions: OptimizerRegion[];
+  targetIds: string[];
+  options: OptimizerOptions;
+}
+
+export type OptimizerJobResult = { jobId: number } & (
+  { kind: 'proposal'; proposal: OptimizerProposal } | { kind: 'error'; message: string }
+);
+
+self.onmessage = (e: MessageEvent<OptimizerJob>) => {
+  const { jobId, speakers, groups, settings, regions, targetIds, options } = e.data;
+  let result: OptimizerJobResult;
+  try {
+    result = { jobId, kind: 'proposal', proposal: optimizeSpeakers(speakers, groups, settings, regions, targetIds, options) };
+  } catch (error) {
+    result = { jobId, kind: 'error', message: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(result);
+};
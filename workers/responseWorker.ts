@@ -0,0 +1,74 @@
+import { Speaker, Group, SimulationSettings, Microphone } from '../types';
+import { getLogFrequencies } from '../utils/physics';
+import { CrossoverPoint, ResponsePoint, computeResponseAt, findCrossover, isolateRole } from '../utils/response';
+
+// Off-main-thread mic response sweeps, so dragging a speaker doesn't wait on them.
+// As in the field worker, a job is abandoned as soon as a newer one arrives.
+
+export interface ResponseJob {
+  jobId: number;
+  speakers: Speaker[];
+  groups: Group[];
+  settings: SimulationSettings;
+  mics: Microphone[];
+  split: boolean; // also sweep subs and main PA on their own
+  minFrequency: number; // Hz
+  maxFrequency: number; // Hz
+  pointsPerOctave: number;
+}
+
+export interface MicResponse {
+  micId: string;
+  combined: ResponsePoint[];
+  sub: ResponsePoint[] | null; // null unless split
+  main: ResponsePoint[] | null;
+  crossover: CrossoverPoint | null;
+}
+
+export interface ResponseJobResult {
+  jobId: number;
+  responses: MicResponse[];
+  error: string | null; // set when the sweep failed; responses is then empty
+}
+
+let latestJobId = 0;
+
+// Yield to the message queue without the 4ms clamp of nested setTimeout
+const yieldToQueue = () => new Promise<void>(resolve => {
+  const channel = new MessageChannel();
+  channel.port1.onmessage = () => resolve();
+  channel.port2.postMessage(null);
+});
+
+async function runJob(job: ResponseJob) {
+  const frequencies = getLogFrequencies(job.minFrequency, job.maxFrequency, job.pointsPerOctave);
+  const { speakers, groups, settings } = job;
+  const responses: MicResponse[] = [];
+
+  // One mic per slice, checking for newer jobs in between
+  for (const m of job.mics) {
+    await yieldToQueue();
+    if (job.jobId !== latestJobId) return;
+
+    const combined = computeResponseAt(speakers, groups, settings, m, frequencies);
+    if (!job.split) {
+      responses.push({ micId: m.id, combined, sub: null, main: null, crossover: null });
+      continue;
+    }
+    const sub = computeResponseAt(isolateRole(speakers, 'sub'), groups, settings, m, frequencies);
+    const main = computeResponseAt(isolateRole(speakers, 'main'), groups, settings, m, frequencies);
+    responses.push({ micId: m.id, combined, sub, main, crossover: findCrossover(sub, main) });
+  }
+
+  const result: ResponseJobResult = { jobId: job.jobId, responses, error: null };
+  self.postMessage(result);
+}
+
+self.onmessage = (e: MessageEvent<ResponseJob>) => {
+  const job = e.data;
+  latestJobId = job.jobId;
+  runJob(job).catch((error: unknown) => {
+    const result: ResponseJobResult = { jobId: job.jobId, responses: [], error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(result);
+  });
+};